@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getZarazConsentState } from '@imviidx/sentry-zaraz-consent-integration';
+import {
+  getZarazConsentState,
+  waitForZarazConsent,
+} from '@imviidx/sentry-zaraz-consent-integration';
 import { zaraz } from 'zaraz-ts';
 import { purposeMapping } from '../fake-zaraz.js';
 
@@ -68,22 +71,23 @@ export const useZarazConsentShortcuts = () => {
       );
   }, [monitorConsentChanges]);
 
-  // Monitor Zaraz API readiness
+  // Wait for Zaraz API readiness
   useEffect(() => {
-    const checkZarazReady = () => {
-      const windowZaraz = (window as any).zaraz;
-      const ready = windowZaraz?.consent?.APIReady === true;
-      if (isConsentApiReady !== ready) {
-        setIsConsentApiReady(ready);
-        monitorConsentChanges();
-      }
-    };
+    const controller = new AbortController();
 
-    const interval = setInterval(checkZarazReady, 100);
-    checkZarazReady(); // Check immediately
+    waitForZarazConsent(purposeMapping, { signal: controller.signal })
+      .then(() => {
+        setIsConsentApiReady(true);
+        monitorConsentChanges();
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.warn('⚠️ Zaraz consent API not ready:', error);
+        }
+      });
 
-    return () => clearInterval(interval);
-  }, [isConsentApiReady, monitorConsentChanges]);
+    return () => controller.abort();
+  }, [monitorConsentChanges]);
 
   return {
     currentConsent,
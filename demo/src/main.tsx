@@ -40,6 +40,7 @@ Sentry.init({
     // The consent integration will control when replay is active via sample rates
     sentryZarazConsentIntegration({
       purposeMapping,
+      replayControl: true,
       debug: true,
     }),
   ],
@@ -0,0 +1,133 @@
+/**
+ * Breadcrumb Rules
+ *
+ * Decides per breadcrumb category or type which consent categories are
+ * required, instead of dropping every breadcrumb without analytics consent.
+ */
+
+import type { Breadcrumb, Client, Integration } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import { scrubBreadcrumbUrl } from './event-scrubbing.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Breadcrumb categories and types recorded by the Sentry SDK. Breadcrumbs
+ * added by the application are matched by their own category or type, and
+ * fall back to the `custom` rule.
+ */
+export type BreadcrumbRuleKey =
+  | 'console'
+  | 'fetch'
+  | 'xhr'
+  | 'navigation'
+  | 'ui.click'
+  | 'ui.input'
+  | 'custom';
+
+/**
+ * Categories a breadcrumb requires, all of which must be granted. An empty
+ * array allows the breadcrumb without consent.
+ */
+export type BreadcrumbRuleValue<C extends string = never> =
+  | BaseConsentCategory
+  | C
+  | (BaseConsentCategory | C)[];
+
+/**
+ * Configuration options for breadcrumb rules
+ */
+export interface BreadcrumbRulesOptions<C extends string = never> {
+  /**
+   * Categories required by breadcrumbs, keyed by breadcrumb category or type.
+   * Breadcrumbs without a matching rule require analytics.
+   */
+  rules: Partial<
+    Record<BreadcrumbRuleKey | (string & {}), BreadcrumbRuleValue<C>>
+  >;
+
+  /**
+   * Remove query strings and fragments from the URLs of allowed breadcrumbs
+   * @default false
+   */
+  scrubUrls?: boolean;
+}
+
+interface BreadcrumbRulesContext {
+  options: BreadcrumbRulesOptions<string>;
+  getConsentState: () => Record<string, boolean>;
+  /**
+   * Subscribes to consent changes, listeners are called once the base
+   * integration has adjusted the client options for the change
+   */
+  subscribe: (listener: () => void) => () => void;
+  debug: boolean;
+}
+
+/**
+ * Gets the categories a breadcrumb requires
+ */
+function getRequiredCategories(
+  rules: BreadcrumbRulesOptions<string>['rules'],
+  breadcrumb: Breadcrumb
+): string[] {
+  const rule =
+    (breadcrumb.category !== undefined && rules[breadcrumb.category]) ||
+    (breadcrumb.type !== undefined && rules[breadcrumb.type]) ||
+    rules.custom ||
+    'analytics';
+
+  return Array.isArray(rule) ? rule : [rule];
+}
+
+/**
+ * Wraps an integration so that breadcrumbs are filtered by the rules in
+ * `beforeBreadcrumb`, before the user's own hook. The configured
+ * `maxBreadcrumbs` is restored after the base integration zeroes it without
+ * analytics consent, so that allowed breadcrumbs are still recorded.
+ */
+export function withBreadcrumbRules(
+  integration: Integration,
+  context: BreadcrumbRulesContext
+): Integration {
+  const { options, getConsentState, subscribe, debug } = context;
+  const { rules, scrubUrls = false } = options;
+  const log = createDebugLogger(debug);
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      const clientOptions = client.getOptions();
+      const { maxBreadcrumbs = 100 } = clientOptions;
+
+      integration.setup?.(client);
+
+      const { beforeBreadcrumb } = clientOptions;
+
+      clientOptions.beforeBreadcrumb = (breadcrumb, hint) => {
+        const consentState = getConsentState();
+        const required = getRequiredCategories(rules, breadcrumb);
+
+        if (!required.every((category) => consentState[category])) {
+          log(
+            'Dropped breadcrumb without consent:',
+            breadcrumb.category ?? breadcrumb.type
+          );
+          return null;
+        }
+
+        const allowed = scrubUrls ? scrubBreadcrumbUrl(breadcrumb) : breadcrumb;
+
+        return beforeBreadcrumb ? beforeBreadcrumb(allowed, hint) : allowed;
+      };
+
+      // Undoes the base integration zeroing the limit, at setup and after each
+      // consent change it applied
+      const restoreMaxBreadcrumbs = () => {
+        clientOptions.maxBreadcrumbs = maxBreadcrumbs;
+      };
+
+      subscribe(restoreMaxBreadcrumbs);
+      restoreMaxBreadcrumbs();
+    },
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Consent Buffer
+ *
+ * Holds events, transactions and breadcrumbs captured before the Zaraz consent
+ * API is ready, and releases them once consent has been resolved.
+ */
+
+import { addBreadcrumb } from '@sentry/core';
+import type {
+  Breadcrumb,
+  BreadcrumbHint,
+  Client,
+  Event,
+  EventHint,
+  Integration,
+} from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Configuration options for buffering telemetry until Zaraz is ready
+ */
+export interface ConsentBufferOptions {
+  /**
+   * Maximum number of buffered items, the oldest items are dropped first
+   * @default 100
+   */
+  maxSize?: number;
+
+  /**
+   * Time in milliseconds a buffered item stays eligible for release
+   * @default 30000 (30 seconds)
+   */
+  ttl?: number;
+}
+
+type BufferedItem =
+  | {
+      type: 'event';
+      event: Event;
+      hint: EventHint;
+      bufferedAt: number;
+    }
+  | {
+      type: 'breadcrumb';
+      breadcrumb: Breadcrumb;
+      hint: BreadcrumbHint | undefined;
+      bufferedAt: number;
+    };
+
+interface ConsentBufferContext {
+  options: ConsentBufferOptions;
+  isReady: () => boolean;
+  subscribe: (listener: () => void) => () => void;
+  getConsentState: () => Record<BaseConsentCategory, boolean>;
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that telemetry captured before Zaraz is ready is
+ * buffered instead of dropped, then forwarded or discarded once the consent
+ * provider becomes ready
+ */
+export function withConsentBuffer(
+  integration: Integration,
+  context: ConsentBufferContext
+): Integration {
+  const { options, isReady, subscribe, getConsentState, debug } = context;
+  const { maxSize = 100, ttl = 30000 } = options;
+
+  let buffer: BufferedItem[] = [];
+
+  const log = createDebugLogger(debug);
+
+  const push = (item: BufferedItem) => {
+    const now = Date.now();
+    buffer = buffer.filter((buffered) => now - buffered.bufferedAt < ttl);
+    buffer.push(item);
+
+    if (buffer.length > maxSize) {
+      buffer.splice(0, buffer.length - maxSize);
+    }
+  };
+
+  const release = (client: Client) => {
+    const now = Date.now();
+    const items = buffer.filter((item) => now - item.bufferedAt < ttl);
+    buffer = [];
+
+    if (items.length === 0) {
+      return;
+    }
+
+    const consentState = getConsentState();
+    let forwarded = 0;
+
+    // Breadcrumbs go first so that they are part of the scope when the
+    // buffered events are captured again. They are all added again, and
+    // `beforeBreadcrumb` and `maxBreadcrumbs` decide which are kept.
+    for (const item of items) {
+      if (item.type === 'breadcrumb') {
+        addBreadcrumb(item.breadcrumb, item.hint);
+        forwarded++;
+      }
+    }
+
+    for (const item of items) {
+      if (item.type === 'event' && consentState[getEventCategory(item.event)]) {
+        client.captureEvent(item.event, item.hint);
+        forwarded++;
+      }
+    }
+
+    log(
+      `Released consent buffer: ${forwarded} forwarded, ${
+        items.length - forwarded
+      } dropped`
+    );
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      const clientOptions = client.getOptions();
+      const { maxBreadcrumbs = 100 } = clientOptions;
+
+      integration.setup?.(client);
+
+      const { beforeBreadcrumb } = clientOptions;
+
+      clientOptions.beforeBreadcrumb = (breadcrumb, hint) => {
+        if (!isReady()) {
+          push({
+            type: 'breadcrumb',
+            breadcrumb,
+            hint,
+            bufferedAt: Date.now(),
+          });
+          return null;
+        }
+
+        return beforeBreadcrumb
+          ? beforeBreadcrumb(breadcrumb, hint)
+          : breadcrumb;
+      };
+
+      // The base integration zeroes the limit without analytics consent, and
+      // Sentry drops breadcrumbs before `beforeBreadcrumb` while it is zero
+      const keepBreadcrumbLimit = () => {
+        clientOptions.maxBreadcrumbs = maxBreadcrumbs;
+      };
+
+      subscribe(() => {
+        if (isReady()) {
+          release(client);
+        } else {
+          keepBreadcrumbLimit();
+        }
+      });
+
+      if (!isReady()) {
+        keepBreadcrumbLimit();
+      }
+    },
+    processEvent(event: Event, hint: EventHint, client: Client) {
+      if (!isReady()) {
+        // Scope breadcrumbs are applied again when the event is re-captured
+        const { breadcrumbs: _breadcrumbs, ...bufferedEvent } = event;
+        push({
+          type: 'event',
+          event: bufferedEvent,
+          hint,
+          bufferedAt: Date.now(),
+        });
+        log('Buffered event until Zaraz consent is ready');
+        return null;
+      }
+
+      return integration.processEvent
+        ? integration.processEvent(event, hint, client)
+        : event;
+    },
+  };
+}
+
+/**
+ * Gets the consent category an event requires to be forwarded
+ */
+export function getEventCategory(event: Event): BaseConsentCategory {
+  return event.type === 'transaction' ? 'analytics' : 'functional';
+}
@@ -0,0 +1,68 @@
+/**
+ * Consent Context
+ *
+ * Stamps outgoing events with the consent state they were captured under, to
+ * explain missing or partial data when debugging in Sentry.
+ */
+
+import type { Integration } from '@sentry/types';
+
+/**
+ * Consent decision attached to events as the `consent` context
+ */
+export interface ConsentContext {
+  /**
+   * Resolved state of every base and configured custom category
+   */
+  categories: Record<string, boolean>;
+
+  /**
+   * Whether the Zaraz consent API was ready
+   */
+  zaraz_ready: boolean;
+
+  /**
+   * Name of the consent provider the state was resolved from
+   */
+  provider: string;
+
+  /**
+   * Whether the state is the timeout policy's fallback
+   */
+  timeout_fallback: boolean;
+}
+
+interface ConsentContextContext {
+  getContext: () => ConsentContext;
+}
+
+/**
+ * Wraps an integration so that every event gets a `consent` context and a
+ * `consent.<category>` tag per category
+ */
+export function withConsentContext(
+  integration: Integration,
+  context: ConsentContextContext
+): Integration {
+  const { getContext } = context;
+
+  return {
+    ...integration,
+    processEvent(event, hint, client) {
+      const consentContext = getContext();
+
+      event.contexts = { ...event.contexts, consent: { ...consentContext } };
+      event.tags = { ...event.tags };
+
+      for (const [category, granted] of Object.entries(
+        consentContext.categories
+      )) {
+        event.tags[`consent.${category}`] = granted ? 'granted' : 'denied';
+      }
+
+      return integration.processEvent
+        ? integration.processEvent(event, hint, client)
+        : event;
+    },
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Consent Provider
+ *
+ * Abstraction over the consent management platform the integration reads
+ * purpose choices from. Zaraz is the default provider.
+ */
+
+import type { PurposeGetter } from './purpose-mapping.js';
+
+/**
+ * Source of purpose choices for the consent integration. Providers may be
+ * class instances, their methods are always called on the provider.
+ */
+export interface ConsentProvider {
+  /**
+   * Name of the provider, used in debug logging
+   */
+  name: string;
+
+  /**
+   * Checks whether purpose choices are available
+   */
+  isReady(): boolean;
+
+  /**
+   * Gets the choice recorded for a purpose ID
+   * @returns true if granted, false if denied, undefined if the user has not
+   * decided yet
+   */
+  getPurposeConsent(purposeId: string): boolean | undefined;
+
+  /**
+   * Subscribes to consent changes, including the provider becoming ready
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Gets the purpose source of a provider, undefined if it is not ready
+ */
+export function getProviderPurposeGetter(
+  provider: ConsentProvider
+): PurposeGetter | undefined {
+  if (!provider.isReady()) {
+    return undefined;
+  }
+
+  return (purposeId) => provider.getPurposeConsent(purposeId);
+}
+
+/**
+ * Combines a default provider with providers addressed through a purpose ID
+ * prefix, e.g. `tcf:7` is resolved as purpose `7` of the provider registered
+ * under the `tcf:` prefix
+ * @param defaultProvider Provider for purpose IDs without a registered prefix
+ * @param prefixedProviders Providers keyed by their purpose ID prefix
+ * @returns Provider that is ready as soon as any combined provider is ready,
+ * so that prefixed purpose IDs resolve while the default provider is not
+ */
+export function combineConsentProviders(
+  defaultProvider: ConsentProvider,
+  prefixedProviders: Record<string, ConsentProvider>
+): ConsentProvider {
+  const prefixed = Object.entries(prefixedProviders);
+
+  if (prefixed.length === 0) {
+    return defaultProvider;
+  }
+
+  const providers = [
+    defaultProvider,
+    ...prefixed.map(([, provider]) => provider),
+  ];
+
+  return {
+    name: providers.map((provider) => provider.name).join('+'),
+    isReady: () => providers.some((provider) => provider.isReady()),
+    getPurposeConsent(purposeId) {
+      for (const [prefix, provider] of prefixed) {
+        if (purposeId.startsWith(prefix)) {
+          return provider.isReady()
+            ? provider.getPurposeConsent(purposeId.slice(prefix.length))
+            : undefined;
+        }
+      }
+
+      return defaultProvider.isReady()
+        ? defaultProvider.getPurposeConsent(purposeId)
+        : undefined;
+    },
+    subscribe(listener) {
+      const unsubscribes = providers.map((provider) =>
+        provider.subscribe(listener)
+      );
+
+      return () => {
+        for (const unsubscribe of unsubscribes) {
+          unsubscribe();
+        }
+      };
+    },
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Consent Routing
+ *
+ * Sends envelopes to a different tunnel or DSN depending on the consent
+ * state, e.g. through a first-party tunnel that strips IP addresses for
+ * users who have not consented.
+ */
+
+import {
+  dsnToString,
+  getEnvelopeEndpointWithUrlEncodedAuth,
+  makeDsn,
+} from '@sentry/core';
+import type {
+  Client,
+  DsnComponents,
+  Envelope,
+  Integration,
+  Transport,
+  TransportMakeRequestResponse,
+} from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Transport target used while a consent state matches
+ */
+export interface ConsentRoute<C extends string = never> {
+  /**
+   * Categories that must all be granted for the route to match
+   */
+  granted?: (BaseConsentCategory | C)[];
+
+  /**
+   * Categories that must all be denied for the route to match
+   */
+  denied?: (BaseConsentCategory | C)[];
+
+  /**
+   * Tunnel URL envelopes are sent to
+   */
+  tunnel?: string;
+
+  /**
+   * DSN envelopes are sent to, defaults to the client's DSN
+   */
+  dsn?: string;
+}
+
+interface ConsentRoutingContext {
+  routes: readonly ConsentRoute<string>[];
+  getConsentState: () => Record<string, boolean>;
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that each envelope is sent through the transport of
+ * the first route matching the consent state at the time it is sent, and
+ * through the client's own transport if none matches. Every route has its own
+ * transport, so envelopes already queued in another transport keep their
+ * target.
+ */
+export function withConsentRouting(
+  integration: Integration,
+  context: ConsentRoutingContext
+): Integration {
+  const { routes, getConsentState, debug } = context;
+  const log = createDebugLogger(debug);
+
+  const matches = (route: ConsentRoute<string>) => {
+    const consentState = getConsentState();
+
+    return (
+      (route.granted ?? []).every((category) => consentState[category]) &&
+      (route.denied ?? []).every((category) => !consentState[category])
+    );
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      integration.setup?.(client);
+
+      const transport = client.getTransport();
+      const clientOptions = client.getOptions();
+      const makeTransport = clientOptions.transport;
+
+      if (!transport || !makeTransport) {
+        return;
+      }
+
+      const { send, flush } = transport;
+      const targets = new Map<
+        ConsentRoute<string>,
+        { dsn: DsnComponents; transport: Transport }
+      >();
+
+      const getTarget = (route: ConsentRoute<string>) => {
+        let target = targets.get(route);
+
+        if (!target) {
+          const dsn = route.dsn ? makeDsn(route.dsn) : client.getDsn();
+
+          if (!dsn) {
+            return undefined;
+          }
+
+          target = {
+            dsn,
+            transport: makeTransport({
+              ...(route.tunnel && { tunnel: route.tunnel }),
+              recordDroppedEvent: client.recordDroppedEvent.bind(client),
+              ...clientOptions.transportOptions,
+              url: getEnvelopeEndpointWithUrlEncodedAuth(
+                dsn,
+                route.tunnel,
+                client.getSdkMetadata()?.sdk
+              ),
+            }),
+          };
+          targets.set(route, target);
+        }
+
+        return target;
+      };
+
+      transport.send = (
+        envelope: Envelope
+      ): PromiseLike<TransportMakeRequestResponse> => {
+        const route = routes.find(matches);
+        const target = route && getTarget(route);
+
+        if (!route || !target) {
+          return send.call(transport, envelope);
+        }
+
+        // Relays and tunnels forward envelopes to the DSN in their header
+        if (route.dsn && envelope[0].dsn) {
+          envelope[0].dsn = dsnToString(target.dsn);
+        }
+
+        log('Routing envelope to', route.tunnel ?? route.dsn);
+
+        return target.transport.send(envelope);
+      };
+
+      transport.flush = (timeout?: number) =>
+        Promise.all([
+          flush.call(transport, timeout),
+          ...[...targets.values()].map((target) =>
+            target.transport.flush(timeout)
+          ),
+        ]).then((results) => results.every(Boolean));
+    },
+  };
+}
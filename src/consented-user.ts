@@ -0,0 +1,108 @@
+/**
+ * Consented User
+ *
+ * Holds the user identity in memory and only puts it on the Sentry scope
+ * while the consent category controlling user identification is granted.
+ */
+
+import {
+  getCurrentScope,
+  getGlobalScope,
+  getIsolationScope,
+} from '@sentry/core';
+import type { Client, Integration, User } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Configuration options for consent-aware user identity
+ */
+export interface UserConsentOptions<C extends string = never> {
+  /**
+   * Category that controls user identification
+   * @default 'marketing'
+   */
+  category?: BaseConsentCategory | C;
+}
+
+interface UserConsentContext {
+  options: UserConsentOptions<string>;
+  getConsentState: () => Record<string, boolean>;
+  subscribe: (listener: () => void) => () => void;
+  debug: boolean;
+}
+
+// User held until consent is granted, undefined until setConsentedUser() is
+// called so that users set through Sentry.setUser are left alone
+let consentedUser: User | null | undefined;
+const userListeners = new Set<() => void>();
+
+/**
+ * Consent-aware replacement for `Sentry.setUser`. The user is held in memory
+ * and only set on the scope while the category configured in `userConsent`
+ * is granted.
+ * @param user The user to identify events with, null to clear it
+ */
+export function setConsentedUser(user: User | null): void {
+  consentedUser = user;
+
+  for (const listener of [...userListeners]) {
+    listener();
+  }
+}
+
+/**
+ * Wraps an integration so that the user passed to `setConsentedUser` is set
+ * on the isolation scope while the category is granted, and the user is
+ * cleared from every scope when it is revoked
+ */
+export function withUserConsent(
+  integration: Integration,
+  context: UserConsentContext
+): Integration {
+  const { options, getConsentState, subscribe, debug } = context;
+  const { category = 'marketing' } = options;
+
+  let applied = false;
+
+  const log = createDebugLogger(debug);
+
+  const clearUser = () => {
+    for (const scope of [
+      getCurrentScope(),
+      getIsolationScope(),
+      getGlobalScope(),
+    ]) {
+      scope.setUser(null);
+    }
+  };
+
+  const sync = () => {
+    if (getConsentState()[category]) {
+      if (consentedUser !== undefined) {
+        getIsolationScope().setUser(consentedUser);
+        applied = true;
+        log(`Applied user, ${category} consent granted`);
+      }
+
+      return;
+    }
+
+    if (applied) {
+      clearUser();
+      applied = false;
+      log(`Cleared user from every scope, ${category} consent revoked`);
+    }
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      integration.setup?.(client);
+
+      userListeners.add(sync);
+      subscribe(sync);
+      sync();
+    },
+  };
+}
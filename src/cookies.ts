@@ -0,0 +1,108 @@
+/**
+ * Cookie Helpers
+ *
+ * Reads cookies from a `Cookie` header or `document.cookie` string without
+ * touching any browser globals.
+ */
+
+/**
+ * Gets the decoded value of a cookie
+ * @param cookieHeader Cookie string in `name=value; name2=value2` format
+ * @param name Name of the cookie to read
+ * @returns The decoded cookie value, or undefined if the cookie is not set
+ */
+export function getCookieValue(
+  cookieHeader: string,
+  name: string
+): string | undefined {
+  for (const cookie of cookieHeader.split(';')) {
+    const separatorIndex = cookie.indexOf('=');
+
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    if (cookie.slice(0, separatorIndex).trim() !== name) {
+      continue;
+    }
+
+    const value = cookie.slice(separatorIndex + 1).trim();
+
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Name of the cookie Zaraz persists consent choices in
+ */
+export const ZARAZ_CONSENT_COOKIE = 'cf_consent';
+
+/**
+ * Decodes the value of the Zaraz consent cookie
+ * @param value Raw or URI-encoded cookie value, a JSON object of purpose IDs
+ * @returns Map of Zaraz purpose IDs to their consent choice, or undefined if
+ * the value cannot be decoded
+ *
+ * @example
+ * ```typescript
+ * parseZarazConsentCookie('%7B%22USeX%22%3Atrue%2C%22dqVA%22%3Afalse%7D');
+ * // Returns: { USeX: true, dqVA: false }
+ * ```
+ */
+export function parseZarazConsentCookie(
+  value: string
+): Record<string, boolean> | undefined {
+  let decoded = value.trim();
+
+  // The value may be URI-encoded more than once
+  for (let attempt = 0; attempt < 2 && !decoded.startsWith('{'); attempt++) {
+    try {
+      decoded = decodeURIComponent(decoded);
+    } catch {
+      return undefined;
+    }
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(decoded);
+  } catch {
+    return undefined;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return undefined;
+  }
+
+  const purposes: Record<string, boolean> = {};
+
+  for (const [purposeId, consent] of Object.entries(parsed)) {
+    if (typeof consent === 'boolean') {
+      purposes[purposeId] = consent;
+    }
+  }
+
+  return purposes;
+}
+
+/**
+ * Reads and decodes the Zaraz consent cookie
+ * @param cookieHeader Cookie string in `name=value; name2=value2` format
+ * @param name Name of the Zaraz consent cookie
+ * @returns Map of Zaraz purpose IDs to their consent choice, or undefined if
+ * the cookie is not set or cannot be decoded
+ */
+export function readZarazConsentCookie(
+  cookieHeader: string,
+  name: string = ZARAZ_CONSENT_COOKIE
+): Record<string, boolean> | undefined {
+  const value = getCookieValue(cookieHeader, name);
+  return value === undefined ? undefined : parseZarazConsentCookie(value);
+}
@@ -0,0 +1,202 @@
+/**
+ * Cross-Tab Consent Sync
+ *
+ * Shares resolved consent changes between same-origin tabs through a
+ * BroadcastChannel, falling back to storage events where it is missing, so
+ * that a revocation in one tab applies to every open tab.
+ */
+
+import { createDebugLogger } from './debug-logger.js';
+
+/**
+ * Configuration options for cross-tab consent sync
+ */
+export interface CrossTabSyncOptions {
+  /**
+   * Name of the BroadcastChannel the consent state is shared on
+   * @default 'sentry-zaraz-consent'
+   */
+  channelName?: string;
+
+  /**
+   * localStorage key used to share the consent state where BroadcastChannel
+   * is not available
+   * @default 'sentry-zaraz-consent-sync'
+   */
+  storageKey?: string;
+}
+
+/**
+ * Consent state shared between tabs
+ */
+export interface CrossTabSync {
+  /**
+   * Gets the state last received from another tab, undefined if none was
+   * received since the last local change
+   */
+  getState(): Record<string, boolean> | undefined;
+
+  /**
+   * Forgets the state received from another tab after a local change
+   */
+  clear(): void;
+
+  /**
+   * Shares a locally resolved state with the other tabs
+   */
+  broadcast(state: Record<string, boolean>): void;
+
+  /**
+   * Subscribes to states received from other tabs. The channel is opened
+   * with the first subscriber and closed with the last one.
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Parses a shared consent state, undefined if it is malformed
+ */
+function parseState(data: unknown): Record<string, boolean> | undefined {
+  const state = (data as { state?: unknown } | null)?.state;
+
+  if (typeof state !== 'object' || state === null) {
+    return undefined;
+  }
+
+  const parsed: Record<string, boolean> = {};
+
+  for (const [category, granted] of Object.entries(state)) {
+    if (typeof granted === 'boolean') {
+      parsed[category] = granted;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Creates the cross-tab sync of resolved consent states
+ * @param options Channel name and storage key
+ * @param debug Enable debug logging
+ * @returns Cross-tab sync shared by the integration's subscribers
+ */
+export function createCrossTabSync(
+  options: CrossTabSyncOptions,
+  debug: boolean
+): CrossTabSync {
+  const {
+    channelName = 'sentry-zaraz-consent',
+    storageKey = 'sentry-zaraz-consent-sync',
+  } = options;
+
+  const log = createDebugLogger(debug);
+
+  const listeners = new Set<() => void>();
+  const hasBroadcastChannel = typeof BroadcastChannel !== 'undefined';
+
+  let channel: BroadcastChannel | undefined;
+  let remoteState: Record<string, boolean> | undefined;
+  let lastSerialized: string | undefined;
+
+  const receive = (data: unknown) => {
+    const state = parseState(data);
+
+    if (!state) {
+      return;
+    }
+
+    remoteState = state;
+    lastSerialized = JSON.stringify(state);
+
+    log('Consent changed in another tab:', state);
+
+    for (const listener of [...listeners]) {
+      listener();
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => receive(event.data);
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== storageKey || !event.newValue) {
+      return;
+    }
+
+    try {
+      receive(JSON.parse(event.newValue));
+    } catch {
+      // Ignore values not written by the integration
+    }
+  };
+
+  const open = () => {
+    if (hasBroadcastChannel) {
+      channel = new BroadcastChannel(channelName);
+      channel.addEventListener('message', handleMessage);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', handleStorage);
+    }
+  };
+
+  const close = () => {
+    if (channel) {
+      channel.removeEventListener('message', handleMessage);
+      channel.close();
+      channel = undefined;
+    } else if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', handleStorage);
+    }
+  };
+
+  return {
+    getState: () => remoteState,
+    clear() {
+      remoteState = undefined;
+    },
+    broadcast(state) {
+      const serialized = JSON.stringify(state);
+
+      // Zaraz may dispatch the same choices several times in a row
+      if (serialized === lastSerialized) {
+        return;
+      }
+
+      lastSerialized = serialized;
+
+      try {
+        if (hasBroadcastChannel) {
+          const sender = channel ?? new BroadcastChannel(channelName);
+          sender.postMessage({ state });
+
+          if (sender !== channel) {
+            sender.close();
+          }
+        } else if (typeof localStorage !== 'undefined') {
+          // The timestamp makes every write fire a storage event
+          localStorage.setItem(
+            storageKey,
+            JSON.stringify({ state, sentAt: Date.now() })
+          );
+        }
+      } catch (error) {
+        log('Failed to share consent with other tabs:', error);
+      }
+    },
+    subscribe(listener) {
+      if (listeners.size === 0) {
+        open();
+      }
+
+      listeners.add(listener);
+
+      return () => {
+        if (!listeners.delete(listener) || listeners.size > 0) {
+          return;
+        }
+
+        close();
+      };
+    },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Debug Logger
+ *
+ * Debug logging shared by the modules of the integration.
+ */
+
+/**
+ * Logs its arguments, prefixed with the integration name
+ */
+export type DebugLogger = (...args: unknown[]) => void;
+
+/**
+ * Creates a logger that only logs while debug logging is enabled
+ * @param debug Enable debug logging
+ * @returns The debug logger
+ */
+export function createDebugLogger(debug: boolean): DebugLogger {
+  return (...args) => {
+    if (debug) {
+      console.log('[SentryZarazConsentIntegration]', ...args);
+    }
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Event Scrubbing
+ *
+ * Keeps events flowing for categories in `'scrub'` denial mode, stripping
+ * personal data from them instead of dropping them while the category is
+ * denied.
+ */
+
+import { isThenable } from '@sentry/core';
+import type { Breadcrumb, Client, Event, Integration } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * What happens to the data controlled by a denied category
+ * - 'drop': The data is blocked, as configured by the base integration
+ * - 'scrub': The data is sent with personal data stripped by the scrubbers
+ */
+export type DenialMode = 'drop' | 'scrub';
+
+/**
+ * Strips data from an event
+ * @param event Event to scrub, may be modified in place
+ * @param deniedCategories Scrub-mode categories that are currently denied
+ * @returns The scrubbed event
+ */
+export type EventScrubber = (
+  event: Event,
+  deniedCategories: BaseConsentCategory[]
+) => Event;
+
+/**
+ * Removes the user from the event
+ */
+export const scrubUser: EventScrubber = (event) => {
+  delete event.user;
+  return event;
+};
+
+/**
+ * Removes the user's IP address from the event
+ */
+export const scrubIpAddress: EventScrubber = (event) => {
+  if (event.user) {
+    delete event.user.ip_address;
+  }
+
+  if (event.request?.env) {
+    delete event.request.env.REMOTE_ADDR;
+  }
+
+  return event;
+};
+
+/**
+ * Removes the request cookies from the event
+ */
+export const scrubCookies: EventScrubber = (event) => {
+  if (event.request) {
+    delete event.request.cookies;
+  }
+
+  return event;
+};
+
+/**
+ * Removes the request headers, including the `Cookie` header, from the event
+ */
+export const scrubRequestHeaders: EventScrubber = (event) => {
+  if (event.request) {
+    delete event.request.headers;
+  }
+
+  return event;
+};
+
+/**
+ * Removes the query string and fragment from the request URL
+ */
+export const scrubQueryStrings: EventScrubber = (event) => {
+  if (event.request) {
+    delete event.request.query_string;
+
+    if (event.request.url) {
+      event.request.url = stripQueryString(event.request.url);
+    }
+  }
+
+  return event;
+};
+
+/**
+ * Removes the query string and fragment from breadcrumb URLs
+ */
+export const scrubBreadcrumbUrls: EventScrubber = (event) => {
+  for (const breadcrumb of event.breadcrumbs ?? []) {
+    scrubBreadcrumbUrl(breadcrumb);
+  }
+
+  return event;
+};
+
+/**
+ * Removes the query string and fragment from the URLs of a breadcrumb
+ * @param breadcrumb Breadcrumb to scrub, modified in place
+ * @returns The scrubbed breadcrumb
+ */
+export function scrubBreadcrumbUrl(breadcrumb: Breadcrumb): Breadcrumb {
+  const data = breadcrumb.data;
+
+  if (!data) {
+    return breadcrumb;
+  }
+
+  for (const key of ['url', 'from', 'to']) {
+    if (typeof data[key] === 'string') {
+      data[key] = stripQueryString(data[key]);
+    }
+  }
+
+  delete data['http.query'];
+  delete data['http.fragment'];
+
+  return breadcrumb;
+}
+
+/**
+ * Scrubbers applied when no `scrubbers` option is given
+ */
+export const DEFAULT_EVENT_SCRUBBERS: readonly EventScrubber[] = [
+  scrubUser,
+  scrubIpAddress,
+  scrubCookies,
+  scrubRequestHeaders,
+  scrubQueryStrings,
+  scrubBreadcrumbUrls,
+];
+
+/**
+ * Removes the query string and fragment from a URL
+ */
+function stripQueryString(url: string): string {
+  return url.split(/[?#]/, 1)[0] ?? url;
+}
+
+interface EventScrubbingContext {
+  scrubbers: readonly EventScrubber[];
+  getDeniedCategories: () => BaseConsentCategory[];
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that events are passed through the scrubber
+ * pipeline while a scrub-mode category is denied. Replay events are dropped
+ * instead, since recordings cannot be scrubbed.
+ */
+export function withEventScrubbing(
+  integration: Integration,
+  context: EventScrubbingContext
+): Integration {
+  const { scrubbers, getDeniedCategories, debug } = context;
+  const log = createDebugLogger(debug);
+
+  const scrub = (event: Event | null): Event | null => {
+    const deniedCategories = getDeniedCategories();
+
+    if (!event || deniedCategories.length === 0) {
+      return event;
+    }
+
+    if (event.type === 'replay_event') {
+      log('Dropped replay event, scrubbing:', deniedCategories);
+      return null;
+    }
+
+    return scrubbers.reduce<Event>(
+      (scrubbed, scrubber) => scrubber(scrubbed, deniedCategories),
+      event
+    );
+  };
+
+  return {
+    ...integration,
+    processEvent(event, hint, client: Client) {
+      const processed = integration.processEvent
+        ? integration.processEvent(event, hint, client)
+        : event;
+
+      return isThenable(processed) ? processed.then(scrub) : scrub(processed);
+    },
+  };
+}
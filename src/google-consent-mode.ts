@@ -0,0 +1,183 @@
+/**
+ * Google Consent Mode v2 Adapter
+ *
+ * Maps consent categories onto Google Consent Mode keys, which Zaraz can
+ * forward consent to, and pushes the resolved consent state back into
+ * `gtag('consent', 'update', ...)`.
+ */
+
+import type { ConsentProvider } from './consent-provider.js';
+import type { BaseConsentCategory, PurposeMapping } from './purpose-mapping.js';
+
+/**
+ * Google Consent Mode v2 keys
+ */
+export type GoogleConsentModeKey =
+  | 'analytics_storage'
+  | 'ad_storage'
+  | 'ad_user_data'
+  | 'ad_personalization';
+
+/**
+ * Google Consent Mode state, as set through `gtag('consent', ...)`
+ */
+export type GoogleConsentModeState = {
+  [K in GoogleConsentModeKey]?: 'granted' | 'denied';
+};
+
+// Google tag globals for better TypeScript support
+declare global {
+  interface Window {
+    dataLayer?: unknown[];
+    gtag?: (...args: unknown[]) => void;
+  }
+}
+
+/**
+ * Configuration options for the Google Consent Mode adapter
+ */
+export interface GoogleConsentModeOptions<C extends string = never> {
+  /**
+   * Mapping of consent categories to Google Consent Mode keys
+   * Each category can be mapped to:
+   * - GoogleConsentModeKey[]: Array of keys that must all be granted
+   * - boolean: Always granted (true) or always denied (false)
+   *
+   * Mapped categories are resolved from Google Consent Mode instead of Zaraz
+   * purposes.
+   */
+  purposeMapping?: {
+    [K in BaseConsentCategory | C]?: GoogleConsentModeKey[] | boolean;
+  };
+
+  /**
+   * Push the resolved consent state into `gtag('consent', 'update', ...)`,
+   * mapping each Google Consent Mode key to the category that controls it
+   *
+   * @example
+   * ```typescript
+   * updateGtag: { analytics_storage: 'analytics', ad_storage: 'marketing' }
+   * ```
+   */
+  updateGtag?: {
+    [K in GoogleConsentModeKey]?: BaseConsentCategory | C;
+  };
+}
+
+/**
+ * Prefix of the purpose IDs that refer to Google Consent Mode keys
+ */
+export const GOOGLE_CONSENT_MODE_PURPOSE_PREFIX = 'gcm:';
+
+/**
+ * Gets the current Google Consent Mode state from the `consent` commands in
+ * `window.dataLayer`, later commands overriding earlier ones
+ * @returns Object with the state of each Google Consent Mode key that was set
+ */
+export function getGoogleConsentModeState(): GoogleConsentModeState {
+  const state: GoogleConsentModeState = {};
+
+  if (typeof window === 'undefined' || !Array.isArray(window.dataLayer)) {
+    return state;
+  }
+
+  for (const entry of window.dataLayer) {
+    // gtag() pushes its `arguments` object, which is array-like
+    const command = entry as ArrayLike<unknown> | null | undefined;
+
+    if (
+      !command ||
+      command[0] !== 'consent' ||
+      (command[1] !== 'default' && command[1] !== 'update') ||
+      typeof command[2] !== 'object' ||
+      command[2] === null
+    ) {
+      continue;
+    }
+
+    const update = command[2] as Record<string, unknown>;
+
+    for (const [key, value] of Object.entries(update)) {
+      if (value === 'granted' || value === 'denied') {
+        state[key as GoogleConsentModeKey] = value;
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Pushes consent state into Google Consent Mode via `gtag('consent', 'update', ...)`
+ * @param consentState Resolved consent state for each category
+ * @param keyMapping Category controlling each Google Consent Mode key
+ * @returns true if gtag was available and the update was pushed
+ */
+export function updateGoogleConsentMode(
+  consentState: Record<string, boolean>,
+  keyMapping: GoogleConsentModeOptions<string>['updateGtag'] = {}
+): boolean {
+  if (typeof window === 'undefined' || typeof window.gtag !== 'function') {
+    return false;
+  }
+
+  const update: GoogleConsentModeState = {};
+
+  for (const [key, category] of Object.entries(keyMapping)) {
+    if (category) {
+      update[key as GoogleConsentModeKey] = consentState[category]
+        ? 'granted'
+        : 'denied';
+    }
+  }
+
+  if (Object.keys(update).length === 0) {
+    return false;
+  }
+
+  window.gtag('consent', 'update', update);
+  return true;
+}
+
+/**
+ * Converts a Google Consent Mode mapping into a purpose mapping over Google
+ * Consent Mode keys
+ */
+export function toGoogleConsentModePurposeMapping<C extends string>(
+  googlePurposeMapping: NonNullable<
+    GoogleConsentModeOptions<C>['purposeMapping']
+  >
+): PurposeMapping<C> {
+  const mapping: Record<string, string[] | boolean> = {};
+
+  for (const [category, value] of Object.entries<
+    GoogleConsentModeKey[] | boolean
+  >(googlePurposeMapping as Record<string, GoogleConsentModeKey[] | boolean>)) {
+    mapping[category] =
+      typeof value === 'boolean'
+        ? value
+        : value.map((key) => `${GOOGLE_CONSENT_MODE_PURPOSE_PREFIX}${key}`);
+  }
+
+  return mapping as PurposeMapping<C>;
+}
+
+/**
+ * Creates a consent provider backed by Google Consent Mode. Purpose IDs are
+ * Google Consent Mode keys, read from the `consent` commands in the data layer.
+ * Google Consent Mode has no change events, so the state is re-evaluated when
+ * another provider reports a change.
+ * @returns Consent provider for the integration
+ */
+export function createGoogleConsentModeProvider(): ConsentProvider {
+  return {
+    name: 'google-consent-mode',
+    isReady: () => Object.keys(getGoogleConsentModeState()).length > 0,
+    getPurposeConsent(purposeId) {
+      const value =
+        getGoogleConsentModeState()[purposeId as GoogleConsentModeKey];
+      return value === undefined ? undefined : value === 'granted';
+    },
+    subscribe: () => () => {},
+  };
+}
@@ -10,17 +10,159 @@ import {
   sentryConsentIntegration,
   type SentryConsentIntegrationOptions,
 } from '@imviidx/sentry-consent-integration';
+import type { Integration } from '@sentry/types';
+import {
+  withBreadcrumbRules,
+  type BreadcrumbRuleKey,
+  type BreadcrumbRulesOptions,
+  type BreadcrumbRuleValue,
+} from './breadcrumb-rules.js';
+import {
+  withConsentBuffer,
+  type ConsentBufferOptions,
+} from './consent-buffer.js';
+import { withConsentContext, type ConsentContext } from './consent-context.js';
+import { withConsentRouting, type ConsentRoute } from './consent-routing.js';
+import {
+  createCrossTabSync,
+  type CrossTabSyncOptions,
+} from './cross-tab-sync.js';
+import {
+  DEFAULT_EVENT_SCRUBBERS,
+  withEventScrubbing,
+  type DenialMode,
+  type EventScrubber,
+} from './event-scrubbing.js';
+import {
+  withLazyIntegrations,
+  type LazyIntegrationFactory,
+  type LazyIntegrationRegistry,
+} from './lazy-integrations.js';
+import {
+  withReplayControl,
+  type ReplayControlOptions,
+} from './replay-control.js';
+import { withUserConsent, type UserConsentOptions } from './consented-user.js';
+import {
+  resolveSamplingTier,
+  withSamplingTiers,
+  type SamplingTier,
+} from './sampling-tiers.js';
+import {
+  withStorageGating,
+  type GatedStorage,
+  type StorageAccessRecord,
+  type StorageGatingOptions,
+} from './storage-gating.js';
+import {
+  withTracePropagationGuard,
+  type TracePropagationGuardOptions,
+} from './trace-propagation.js';
+import {
+  withTelemetryConsent,
+  type TelemetryConsentMapping,
+  type TelemetryType,
+} from './telemetry-consent.js';
+import {
+  withPersistentQueue,
+  type PersistentQueueOptions,
+} from './persistent-queue.js';
+import {
+  getTimeoutFallbackState,
+  getTimeoutPolicyName,
+  type ZarazTimeoutInfo,
+  type ZarazTimeoutPolicy,
+} from './timeout-policy.js';
+import { onZarazConsentEvent } from './zaraz-events.js';
+import {
+  combineConsentProviders,
+  getProviderPurposeGetter,
+  type ConsentProvider,
+} from './consent-provider.js';
+import {
+  createZarazConsentProvider,
+  type ZarazConsentProviderOptions,
+} from './zaraz-provider.js';
+import {
+  createGoogleConsentModeProvider,
+  GOOGLE_CONSENT_MODE_PURPOSE_PREFIX,
+  toGoogleConsentModePurposeMapping,
+  updateGoogleConsentMode,
+  type GoogleConsentModeKey,
+  type GoogleConsentModeOptions,
+  type GoogleConsentModeState,
+} from './google-consent-mode.js';
+import {
+  createTcfConsentProvider,
+  TCF_PURPOSE_PREFIX,
+  toTcfPurposeMapping,
+  type TcfConsentOptions,
+} from './tcf.js';
+import {
+  applyPrivacySignals,
+  type PrivacySignal,
+  type PrivacySignalOptions,
+} from './privacy-signals.js';
+import {
+  applyCategoryBindings,
+  BASE_CONSENT_CATEGORIES,
+  isCategoryPending,
+  resolveConsentState,
+  type BaseConsentCategory,
+  type CategoryBindings,
+  type ConsentState,
+  type PurposeGetter,
+  type PurposeMapping,
+  type PurposeMappingValue,
+  type PurposeRule,
+} from './purpose-mapping.js';
 
 // Define ConsentStateGetters type locally since it's not exported from the base package
-export interface ConsentStateGetters {
-  functional?: () => boolean;
-  analytics?: () => boolean;
-  marketing?: () => boolean;
-  preferences?: () => boolean;
-}
+export type ConsentStateGetters<C extends string = never> = {
+  [K in BaseConsentCategory | C]?: () => boolean;
+};
 
 // Re-export types for convenience
-export type { SentryConsentIntegrationOptions };
+export type {
+  BaseConsentCategory,
+  CategoryBindings,
+  ConsentState,
+  PurposeMapping,
+  PurposeMappingValue,
+  PurposeRule,
+  SentryConsentIntegrationOptions,
+  ConsentProvider,
+  ZarazConsentProviderOptions,
+  BreadcrumbRuleKey,
+  BreadcrumbRulesOptions,
+  BreadcrumbRuleValue,
+  ConsentBufferOptions,
+  ConsentContext,
+  ConsentRoute,
+  CrossTabSyncOptions,
+  DenialMode,
+  EventScrubber,
+  LazyIntegrationFactory,
+  LazyIntegrationRegistry,
+  PersistentQueueOptions,
+  PrivacySignal,
+  PrivacySignalOptions,
+  ReplayControlOptions,
+  SamplingTier,
+  GatedStorage,
+  StorageAccessRecord,
+  StorageGatingOptions,
+  TelemetryConsentMapping,
+  TelemetryType,
+  TracePropagationGuardOptions,
+  UserConsentOptions,
+  GoogleConsentModeKey,
+  GoogleConsentModeOptions,
+  GoogleConsentModeState,
+  TcfConsentOptions,
+  ZarazTimeoutInfo,
+  ZarazTimeoutPolicy,
+};
 
 // Zaraz types for better TypeScript support
 declare global {
@@ -38,19 +180,176 @@ declare global {
 /**
  * Configuration options for the Zaraz-specific consent integration
  */
-export interface SentryZarazConsentIntegrationOptions {
-  /**
-   * Mapping of consent purposes to Zaraz purpose IDs
-   * Each purpose can be mapped to:
-   * - string[]: Array of Zaraz purpose IDs that must all be granted
-   * - boolean: Always granted (true) or always denied (false)
-   */
-  purposeMapping: {
-    functional?: string[] | boolean;
-    analytics?: string[] | boolean;
-    marketing?: string[] | boolean;
-    preferences?: string[] | boolean;
-  };
+export interface SentryZarazConsentIntegrationOptions<
+  C extends string = never
+> {
+  /**
+   * Mapping of consent categories to Zaraz purposes
+   */
+  purposeMapping: PurposeMapping<C>;
+
+  /**
+   * Consent management platform the `purposeMapping` purpose IDs are read
+   * from. Use this to plug in another CMP, or a test double.
+   * @default createZarazConsentProvider({ consentCookie })
+   *
+   * @example
+   * ```typescript
+   * consentProvider: {
+   *   name: 'test',
+   *   isReady: () => true,
+   *   getPurposeConsent: (purposeId) => purposeId === 'essential',
+   *   subscribe: () => () => {},
+   * }
+   * ```
+   */
+  consentProvider?: ConsentProvider;
+
+  /**
+   * Binds custom categories from the purpose mapping to base categories
+   *
+   * @example
+   * ```typescript
+   * // Tracing and profiling also require the custom 'performance' category
+   * categoryBindings: { performance: 'analytics' }
+   * ```
+   */
+  categoryBindings?: CategoryBindings<C>;
+
+  /**
+   * Read the Zaraz consent cookie before the Zaraz consent API is ready, so
+   * that returning users' choices apply from page boot. Pass a string to
+   * override the cookie name. Ignored when `consentProvider` is set.
+   * @default false
+   */
+  consentCookie?: boolean | string;
+
+  /**
+   * Deny categories when the browser sends Global Privacy Control or Do Not
+   * Track, even if the Zaraz purposes are granted
+   *
+   * @example
+   * ```typescript
+   * // GPC denies marketing and the custom 'saleShare' category, DNT is ignored
+   * privacySignals: { globalPrivacyControl: ['marketing', 'saleShare'] }
+   * ```
+   */
+  privacySignals?: PrivacySignalOptions<C>;
+
+  /**
+   * Categories each kind of telemetry requires, enforced on every outgoing
+   * envelope in addition to the base integration's configuration adjustments.
+   * Envelope items whose categories are not all granted are dropped.
+   *
+   * @example
+   * ```typescript
+   * telemetryConsent: {
+   *   error: 'functional',
+   *   transaction: ['functional', 'analytics'],
+   *   replay: 'preferences',
+   *   feedback: 'functional',
+   *   log: 'analytics',
+   * }
+   * ```
+   */
+  telemetryConsent?: TelemetryConsentMapping<C>;
+
+  /**
+   * Keep `sentry-trace` and `baggage` headers off outgoing fetch and XHR
+   * requests while analytics is denied, by emptying `tracePropagationTargets`
+   * and removing the headers from XHR requests. The original targets are
+   * restored when analytics is granted. Patches
+   * `XMLHttpRequest.prototype.setRequestHeader`.
+   * @default false
+   */
+  tracePropagationGuard?: boolean | TracePropagationGuardOptions<C>;
+
+  /**
+   * Only put the user passed to `setConsentedUser` on the scope while the
+   * category is granted, and clear the user from every scope when it is
+   * revoked
+   * @default false
+   *
+   * @example
+   * ```typescript
+   * userConsent: { category: 'preferences' } // Defaults to 'marketing'
+   * ```
+   */
+  userConsent?: boolean | UserConsentOptions<C>;
+
+  /**
+   * Route Sentry's localStorage and sessionStorage keys, such as the sticky
+   * Session Replay session, to an in-memory shim while preferences is denied,
+   * and remove them from web storage on revocation. Accessed keys are
+   * reported by `getStorageAccessReport()`. The persistent queue and cross-tab
+   * sync keys are only gated when added to `keys`.
+   * @default false
+   */
+  storageGating?: boolean | StorageGatingOptions<C>;
+
+  /**
+   * Integrations loaded and added to the client only once their category is
+   * granted, so that users who never consent do not download them
+   *
+   * @example
+   * ```typescript
+   * lazyIntegrations: {
+   *   analytics: () =>
+   *     Sentry.lazyLoadIntegration('browserTracingIntegration').then((fn) => fn()),
+   *   preferences: () =>
+   *     import('@sentry/browser').then(({ replayIntegration }) =>
+   *       replayIntegration()
+   *     ),
+   * }
+   * ```
+   */
+  lazyIntegrations?: LazyIntegrationRegistry<C>;
+
+  /**
+   * Sample rates per combination of granted categories, re-applied whenever
+   * consent changes. The first tier whose categories are all granted applies,
+   * so list the most permissive tiers first.
+   *
+   * @example
+   * ```typescript
+   * samplingTiers: [
+   *   { categories: ['functional', 'analytics'], sampleRate: 1, tracesSampleRate: 1 },
+   *   { categories: ['functional'], sampleRate: 0.05 },
+   * ]
+   * ```
+   */
+  samplingTiers?: SamplingTier<C>[];
+
+  /**
+   * Stop Session Replay as soon as its category is revoked, discarding the
+   * recorded buffer, and start or buffer a recording according to the original
+   * `replaysSessionSampleRate` / `replaysOnErrorSampleRate` when it is granted
+   * mid-session. No replay is uploaded while the category is denied.
+   * @default false
+   */
+  replayControl?: boolean | ReplayControlOptions<C>;
+
+  /**
+   * What happens to the data a denied category controls. In `'scrub'` mode
+   * the category stays enabled, and events are passed through `scrubbers`
+   * while it is denied. Replay events are dropped, since recordings cannot
+   * be scrubbed.
+   * @default 'drop' for every category
+   *
+   * @example
+   * ```typescript
+   * // Keep errors without functional consent, but strip personal data
+   * denialMode: { functional: 'scrub' }
+   * ```
+   */
+  denialMode?: Partial<Record<BaseConsentCategory, DenialMode>>;
+
+  /**
+   * Scrubber pipeline applied to events while a `'scrub'` category is denied
+   * @default DEFAULT_EVENT_SCRUBBERS (user, IP address, cookies, request
+   * headers, query strings and breadcrumb URLs)
+   */
+  scrubbers?: EventScrubber[];
 
   /**
    * Timeout in milliseconds to wait for Zaraz to be ready
@@ -58,6 +357,115 @@ export interface SentryZarazConsentIntegrationOptions {
    */
   zarazTimeout?: number;
 
+  /**
+   * Consent state to fall back to when Zaraz is not ready within `zarazTimeout`.
+   * The real Zaraz consent state takes over if Zaraz becomes ready later.
+   * @default 'deny-all'
+   */
+  timeoutPolicy?: ZarazTimeoutPolicy<C>;
+
+  /**
+   * Called when `zarazTimeout` expires before Zaraz is ready, to tell
+   * timeouts apart from real denials
+   */
+  onTimeout?: (info: ZarazTimeoutInfo) => void;
+
+  /**
+   * Categories required per breadcrumb category or type, applied in
+   * `beforeBreadcrumb` before your own hook. Breadcrumbs allowed by the rules
+   * are kept even without analytics consent.
+   *
+   * @example
+   * ```typescript
+   * breadcrumbRules: {
+   *   rules: { navigation: [], 'ui.click': 'functional', console: 'analytics' },
+   *   scrubUrls: true,
+   * }
+   * ```
+   */
+  breadcrumbRules?: BreadcrumbRulesOptions<C>;
+
+  /**
+   * Buffer events, transactions and breadcrumbs captured before Zaraz is ready.
+   * Once the consent provider is ready or the timeout policy is applied, items
+   * allowed by the resolved consent are forwarded and everything else is dropped. With `persistentQueue`,
+   * events are persisted by the queue instead and only breadcrumbs are
+   * buffered.
+   * @default false
+   */
+  bufferUntilReady?: boolean | ConsentBufferOptions;
+
+  /**
+   * Persist events captured while consent is pending across page loads.
+   * Queued events are re-captured or purged once `zarazConsentChoicesUpdated`
+   * or the timeout policy resolves their category, and nothing is written once functional consent
+   * has been denied. Takes over events from `bufferUntilReady`, which then
+   * only buffers breadcrumbs.
+   * @default false
+   */
+  persistentQueue?: boolean | PersistentQueueOptions;
+
+  /**
+   * Resolve categories from an IAB TCF v2.2 CMP (`__tcfapi`) instead of Zaraz
+   * purposes, for sites running Zaraz with the IAB TCF CMP enabled. Categories
+   * not mapped to TCF purposes keep using `purposeMapping`.
+   *
+   * @example
+   * ```typescript
+   * tcf: {
+   *   purposeMapping: { functional: [1], analytics: [1, 7, 8, 9] },
+   *   vendorId: 1234,
+   * }
+   * ```
+   */
+  tcf?: TcfConsentOptions<C>;
+
+  /**
+   * Resolve categories from Google Consent Mode v2 keys instead of Zaraz
+   * purposes, and/or push the resolved consent state into
+   * `gtag('consent', 'update', ...)`
+   *
+   * @example
+   * ```typescript
+   * googleConsentMode: {
+   *   purposeMapping: { analytics: ['analytics_storage'] },
+   *   updateGtag: { ad_storage: 'marketing', ad_user_data: 'marketing' },
+   * }
+   * ```
+   */
+  googleConsentMode?: GoogleConsentModeOptions<C>;
+
+  /**
+   * Tunnel or DSN to send envelopes to depending on the consent state. The
+   * first route matching the state when an envelope is sent applies, and the
+   * client's own `tunnel` / `dsn` is used if none matches. Envelopes already
+   * queued in a transport keep their target.
+   *
+   * @example
+   * ```typescript
+   * // Send data of users without analytics consent through a first-party tunnel
+   * consentRouting: [{ denied: ['analytics'], tunnel: '/api/sentry-tunnel' }]
+   * ```
+   */
+  consentRouting?: ConsentRoute<C>[];
+
+  /**
+   * Share resolved consent changes with other same-origin tabs through a
+   * BroadcastChannel, or storage events where it is missing. Each tab applies
+   * the received state until its own consent changes again.
+   * @default false
+   */
+  crossTabSync?: boolean | CrossTabSyncOptions;
+
+  /**
+   * Attach a `consent` context to every event, with the state of each
+   * category, whether Zaraz was ready, the consent provider and whether the
+   * timeout fallback applied, and a `consent.<category>` tag per category.
+   * No purpose IDs or user data are included.
+   * @default false
+   */
+  consentContext?: boolean;
+
   /**
    * Enable debug logging
    * @default false
@@ -65,6 +473,25 @@ export interface SentryZarazConsentIntegrationOptions {
   debug?: boolean;
 }
 
+/**
+ * Options for resolving the consent state outside of the integration
+ */
+export type ZarazConsentStateOptions<C extends string = never> = Pick<
+  SentryZarazConsentIntegrationOptions<C>,
+  'categoryBindings' | 'consentCookie' | 'privacySignals'
+>;
+
+/**
+ * Consent state including the categories denied by browser privacy signals
+ */
+export type ZarazConsentState<C extends string = never> = ConsentState<C> & {
+  /**
+   * Categories granted by Zaraz but denied by a privacy signal, mapped to
+   * the signal that caused the denial
+   */
+  deniedBySignal?: Partial<Record<BaseConsentCategory | C, PrivacySignal>>;
+};
+
 /**
  * Creates a Sentry integration that works with Cloudflare Zaraz consent management.
  *
@@ -95,43 +522,216 @@ export interface SentryZarazConsentIntegrationOptions {
  * });
  * ```
  */
-export function sentryZarazConsentIntegration(
-  options: SentryZarazConsentIntegrationOptions
-) {
-  const { purposeMapping, zarazTimeout = 30000, debug = false } = options;
+export function sentryZarazConsentIntegration<C extends string = never>(
+  options: SentryZarazConsentIntegrationOptions<C>
+): Integration {
+  const {
+    purposeMapping,
+    consentProvider,
+    categoryBindings,
+    consentCookie = false,
+    privacySignals,
+    telemetryConsent,
+    tracePropagationGuard = false,
+    userConsent = false,
+    storageGating = false,
+    lazyIntegrations,
+    samplingTiers,
+    replayControl = false,
+    denialMode = {},
+    scrubbers = DEFAULT_EVENT_SCRUBBERS,
+    zarazTimeout = 30000,
+    timeoutPolicy = 'deny-all',
+    onTimeout,
+    breadcrumbRules,
+    bufferUntilReady = false,
+    persistentQueue = false,
+    tcf,
+    googleConsentMode,
+    consentRouting,
+    crossTabSync = false,
+    consentContext = false,
+    debug = false,
+  } = options;
+
+  let timedOut = false;
+
+  const primaryProvider =
+    consentProvider ?? createZarazConsentProvider({ consentCookie });
+
+  // Categories mapped to TCF purposes or Google Consent Mode keys are
+  // resolved from those providers instead of the primary provider
+  const googlePurposeMapping = googleConsentMode?.purposeMapping;
+  const provider = combineConsentProviders(primaryProvider, {
+    ...(tcf && { [TCF_PURPOSE_PREFIX]: createTcfConsentProvider(tcf) }),
+    ...(googlePurposeMapping && {
+      [GOOGLE_CONSENT_MODE_PURPOSE_PREFIX]: createGoogleConsentModeProvider(),
+    }),
+  });
+
+  const crossTab = crossTabSync
+    ? createCrossTabSync(crossTabSync === true ? {} : crossTabSync, debug)
+    : undefined;
+
+  // Listeners of the wrappers, notified of consent changes reported by the
+  // providers or another tab and of the timeout policy being applied, always
+  // after the base integration adjusted the client for the change
+  const consentListeners = new Set<() => void>();
+
+  const subscribe = (listener: () => void) => {
+    consentListeners.add(listener);
+
+    return () => {
+      consentListeners.delete(listener);
+    };
+  };
+
+  const effectiveMapping: PurposeMapping<C> = {
+    ...purposeMapping,
+    ...(googlePurposeMapping &&
+      toGoogleConsentModePurposeMapping<C>(googlePurposeMapping)),
+    ...(tcf && toTcfPurposeMapping<C>(tcf.purposeMapping)),
+  };
+
+  const getPurposeGetter = (): PurposeGetter | undefined =>
+    getProviderPurposeGetter(provider);
+
+  // Keep Google Consent Mode in sync with the resolved consent state
+  const updateGtag = () => {
+    if (googleConsentMode?.updateGtag && hasPurposeChoices()) {
+      updateGoogleConsentMode(getConsentState(), googleConsentMode.updateGtag);
+    }
+  };
+
+  // Purpose choices are available from the primary provider. TCF and Google
+  // Consent Mode being ready alone does not end buffering or the timeout policy.
+  const hasPurposeChoices = () => primaryProvider.isReady();
+
+  // The timeout policy resolves every category while Zaraz is not ready
+  const isTimeoutFallback = () => timedOut && !hasPurposeChoices();
+
+  // Resolve consent from Zaraz, or from the timeout policy once Zaraz failed to load
+  const getConsentState = (): ConsentState<C> => {
+    const crossTabState = crossTab?.getState();
+
+    if (crossTabState) {
+      return { ...crossTabState } as ConsentState<C>;
+    }
+
+    if (isTimeoutFallback()) {
+      const fallbackState = getTimeoutFallbackState(timeoutPolicy, [
+        ...BASE_CONSENT_CATEGORIES,
+        ...Object.keys(effectiveMapping),
+      ]);
+
+      if (privacySignals) {
+        applyPrivacySignals(fallbackState, privacySignals);
+      }
+
+      // Every category has an explicit fallback value, so none is unmapped
+      applyCategoryBindings(fallbackState, fallbackState, categoryBindings);
+
+      return fallbackState as ConsentState<C>;
+    }
+
+    return resolveZarazConsentState(
+      effectiveMapping,
+      getPurposeGetter(),
+      options
+    );
+  };
+
+  // Denied categories in scrub mode, whose events are scrubbed instead of dropped
+  const getScrubbedCategories = (): BaseConsentCategory[] => {
+    const consentState = getConsentState();
+    return BASE_CONSENT_CATEGORIES.filter(
+      (category) => denialMode[category] === 'scrub' && !consentState[category]
+    );
+  };
+
+  // Consent state the Sentry features follow, with scrub-mode categories enabled
+  const getEnabledState = (): ConsentState<C> => {
+    const consentState = getConsentState();
+
+    for (const category of getScrubbedCategories()) {
+      consentState[category] = true;
+    }
+
+    return consentState;
+  };
+
+  // Create consent state getters that check Zaraz API, including bound custom categories
+  const getBaseConsent = (category: BaseConsentCategory) => () =>
+    getEnabledState()[category];
 
-  // Create consent state getters that check Zaraz API
   const consentStateGetters: ConsentStateGetters = {
-    functional: () => checkZarazConsent(purposeMapping.functional),
-    analytics: () => checkZarazConsent(purposeMapping.analytics),
-    marketing: () => checkZarazConsent(purposeMapping.marketing),
-    preferences: () => checkZarazConsent(purposeMapping.preferences),
+    functional: getBaseConsent('functional'),
+    analytics: getBaseConsent('analytics'),
+    marketing: getBaseConsent('marketing'),
+    preferences: getBaseConsent('preferences'),
   };
 
-  // Setup consent change listener for Zaraz events
+  // Setup consent change listener for the consent providers
   const onConsentChange = (trigger: () => void) => {
-    // Listen for Zaraz consent events
-    const handleConsentChange = () => {
-      if (debug) {
-        console.log('[SentryZarazConsentIntegration] Zaraz consent changed');
-      }
+    // The wrappers correct the base integration's adjustments, so they are
+    // notified once it has applied the change
+    const applyChange = () => {
+      updateGtag();
       trigger();
+
+      for (const listener of [...consentListeners]) {
+        listener();
+      }
     };
 
-    // Listen for various Zaraz consent events
-    document.addEventListener(
-      'zarazConsentChoicesUpdated',
-      handleConsentChange
-    );
-    document.addEventListener('zarazConsentAPIReady', handleConsentChange);
+    const unsubscribe = provider.subscribe(() => {
+      if (debug) {
+        console.log(
+          `[SentryZarazConsentIntegration] Consent changed (${provider.name})`
+        );
+      }
+      // Local choices take over from the state received from another tab
+      crossTab?.clear();
+      applyChange();
+      crossTab?.broadcast(getConsentState());
+    });
+
+    // Apply consent changes made in other tabs
+    const unsubscribeCrossTab = crossTab?.subscribe(applyChange);
+
+    // Returning users may already have choices available
+    updateGtag();
+
+    // Apply the timeout policy if Zaraz never loads
+    const timeoutId = setTimeout(() => {
+      if (hasPurposeChoices()) {
+        return;
+      }
+
+      timedOut = true;
+
+      const info: ZarazTimeoutInfo = {
+        timeout: zarazTimeout,
+        policy: getTimeoutPolicyName(timeoutPolicy),
+        state: getConsentState(),
+      };
+
+      if (debug) {
+        console.warn(
+          '[SentryZarazConsentIntegration] Zaraz not ready after timeout, applying timeout policy:',
+          info
+        );
+      }
+
+      onTimeout?.(info);
+      applyChange();
+    }, zarazTimeout);
 
     // Return cleanup function
     return () => {
-      document.removeEventListener(
-        'zarazConsentChoicesUpdated',
-        handleConsentChange
-      );
-      document.removeEventListener('zarazConsentAPIReady', handleConsentChange);
+      clearTimeout(timeoutId);
+      unsubscribe();
+      unsubscribeCrossTab?.();
     };
   };
 
@@ -146,44 +746,181 @@ export function sentryZarazConsentIntegration(
   if (debug) {
     console.log('[SentryZarazConsentIntegration] Initializing with options:', {
       purposeMapping,
+      consentProvider: primaryProvider.name,
+      categoryBindings,
+      consentCookie,
+      privacySignals,
+      telemetryConsent,
+      tracePropagationGuard,
+      userConsent,
+      storageGating,
+      lazyIntegrations,
+      samplingTiers,
+      replayControl,
+      denialMode,
       zarazTimeout,
+      timeoutPolicy,
+      breadcrumbRules,
+      bufferUntilReady,
+      persistentQueue,
+      tcf,
+      googleConsentMode,
+      consentRouting,
+      crossTabSync,
+      consentContext,
       debug,
     });
   }
 
-  // Return the base integration with our Zaraz-specific configuration
-  return sentryConsentIntegration(integrationOptions);
-}
+  // Create the base integration with our Zaraz-specific configuration
+  let integration: Integration = sentryConsentIntegration(integrationOptions);
 
-/**
- * Helper function to check consent for a specific purpose mapping
- */
-function checkZarazConsent(mapping: string[] | boolean | undefined): boolean {
-  // Handle boolean values (always grant/deny)
-  if (typeof mapping === 'boolean') {
-    return mapping;
+  // Registered first, so that breadcrumbs are buffered before the rules apply
+  if (breadcrumbRules) {
+    integration = withBreadcrumbRules(integration, {
+      options: breadcrumbRules,
+      getConsentState,
+      subscribe,
+      debug,
+    });
   }
 
-  // Handle undefined (not configured)
-  if (!mapping) {
-    return false;
+  if (bufferUntilReady) {
+    integration = withConsentBuffer(integration, {
+      options: bufferUntilReady === true ? {} : bufferUntilReady,
+      isReady: () => hasPurposeChoices() || isTimeoutFallback(),
+      subscribe,
+      getConsentState: getEnabledState,
+      debug,
+    });
   }
 
-  // Handle array of purpose IDs
-  if (Array.isArray(mapping)) {
-    // Check if Zaraz is available
-    if (typeof window === 'undefined' || !window.zaraz?.consent) {
-      return false;
-    }
+  if (persistentQueue) {
+    integration = withPersistentQueue(integration, {
+      options: persistentQueue === true ? {} : persistentQueue,
+      isPending: (category) =>
+        !isTimeoutFallback() &&
+        isCategoryPending(
+          category,
+          effectiveMapping,
+          getPurposeGetter(),
+          categoryBindings
+        ),
+      isDenied: (category) => !getConsentState()[category],
+      subscribe,
+      getConsentState: getEnabledState,
+      debug,
+    });
+  }
 
-    // All specified purposes must be granted
-    return mapping.every((purposeId) => {
-      const hasConsent = window.zaraz?.consent?.get(purposeId);
-      return hasConsent === true;
+  if (telemetryConsent) {
+    integration = withTelemetryConsent(integration, {
+      mapping: telemetryConsent,
+      getConsentState: getEnabledState,
+      debug,
     });
   }
 
-  return false;
+  if (tracePropagationGuard) {
+    integration = withTracePropagationGuard(integration, {
+      options: tracePropagationGuard === true ? {} : tracePropagationGuard,
+      getConsentState,
+      subscribe,
+      debug,
+    });
+  }
+
+  if (userConsent) {
+    integration = withUserConsent(integration, {
+      options: userConsent === true ? {} : userConsent,
+      getConsentState,
+      subscribe,
+      debug,
+    });
+  }
+
+  if (storageGating) {
+    integration = withStorageGating(integration, {
+      options: storageGating === true ? {} : storageGating,
+      getConsentState,
+      isReady: hasPurposeChoices,
+      subscribe,
+      debug,
+    });
+  }
+
+  if (lazyIntegrations) {
+    integration = withLazyIntegrations(integration, {
+      registry: lazyIntegrations,
+      getConsentState,
+      subscribe,
+      debug,
+    });
+  }
+
+  if (samplingTiers) {
+    integration = withSamplingTiers(integration, {
+      tiers: samplingTiers,
+      getConsentState,
+      isEnabled: (category) => getEnabledState()[category],
+      subscribe,
+      debug,
+    });
+  }
+
+  if (replayControl) {
+    integration = withReplayControl(integration, {
+      options: replayControl === true ? {} : replayControl,
+      getConsentState,
+      getSampleRates: () =>
+        (samplingTiers &&
+          resolveSamplingTier(samplingTiers, getConsentState())) ??
+        {},
+      subscribe,
+      debug,
+    });
+  }
+
+  if (Object.values(denialMode).includes('scrub')) {
+    integration = withEventScrubbing(integration, {
+      scrubbers,
+      getDeniedCategories: getScrubbedCategories,
+      debug,
+    });
+  }
+
+  if (consentRouting) {
+    integration = withConsentRouting(integration, {
+      routes: consentRouting,
+      getConsentState,
+      debug,
+    });
+  }
+
+  if (consentContext) {
+    integration = withConsentContext(integration, {
+      getContext: () => {
+        const consentState: Record<string, unknown> = getConsentState();
+        const categories: Record<string, boolean> = {};
+
+        for (const category of [
+          ...BASE_CONSENT_CATEGORIES,
+          ...Object.keys(effectiveMapping),
+        ]) {
+          categories[category] = consentState[category] === true;
+        }
+
+        return {
+          categories,
+          zaraz_ready: isZarazConsentReady(),
+          provider: provider.name,
+          timeout_fallback: isTimeoutFallback(),
+        };
+      },
+    });
+  }
+
+  return integration;
 }
 
 /**
@@ -204,26 +941,245 @@ export function isZarazConsentReady(): boolean {
 /**
  * Gets the current consent state for all mapped purposes
  * @param purposeMapping The purpose mapping configuration
- * @returns Object with consent state for each purpose
+ * @param options Optional category bindings, consent cookie and privacy signal settings
+ * @returns Object with consent state for each base and custom category, and
+ * the categories denied by a privacy signal if privacy signals are enabled
  */
-export function getZarazConsentState(
-  purposeMapping: SentryZarazConsentIntegrationOptions['purposeMapping']
-) {
-  return {
-    functional: checkZarazConsent(purposeMapping.functional),
-    analytics: checkZarazConsent(purposeMapping.analytics),
-    marketing: checkZarazConsent(purposeMapping.marketing),
-    preferences: checkZarazConsent(purposeMapping.preferences),
-  };
+export function getZarazConsentState<C extends string = never>(
+  purposeMapping: PurposeMapping<C>,
+  options: ZarazConsentStateOptions<C> = {}
+): ZarazConsentState<C> {
+  return resolveZarazConsentState(
+    purposeMapping,
+    getProviderPurposeGetter(createZarazConsentProvider(options)),
+    options
+  );
+}
+
+/**
+ * Resolves the consent state from a purpose source, applying category
+ * bindings and privacy signals
+ */
+function resolveZarazConsentState<C extends string>(
+  purposeMapping: PurposeMapping<C>,
+  getPurpose: PurposeGetter | undefined,
+  options: ZarazConsentStateOptions<C>
+): ZarazConsentState<C> {
+  const { privacySignals } = options;
+  let deniedBySignal: Record<string, PrivacySignal> | undefined;
+
+  const state: ZarazConsentState<C> = resolveConsentState(
+    purposeMapping,
+    getPurpose,
+    options.categoryBindings,
+    privacySignals &&
+      ((resolved) => {
+        deniedBySignal = applyPrivacySignals(resolved, privacySignals);
+      })
+  );
+
+  if (deniedBySignal) {
+    state.deniedBySignal =
+      deniedBySignal as ZarazConsentState<C>['deniedBySignal'];
+  }
+
+  return state;
+}
+
+/**
+ * Options for waiting on the Zaraz consent API
+ */
+export interface WaitForZarazConsentOptions<C extends string = never>
+  extends ZarazConsentStateOptions<C> {
+  /**
+   * Time in milliseconds to wait for Zaraz to be ready
+   * @default 30000 (30 seconds)
+   */
+  timeout?: number;
+
+  /**
+   * Signal to cancel waiting, rejects with the signal's abort reason
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Consent state to resolve with when the timeout expires instead of rejecting
+   */
+  fallback?: ConsentState<C>;
+}
+
+/**
+ * Error thrown by waitForZarazConsent when Zaraz does not become ready in time
+ */
+export class ZarazConsentTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Zaraz consent API was not ready within ${timeout}ms`);
+    this.name = 'ZarazConsentTimeoutError';
+  }
 }
 
+/**
+ * Waits for the Zaraz consent API to be ready
+ * @param purposeMapping The purpose mapping configuration
+ * @param options Timeout, abort signal and fallback options
+ * @returns Promise resolving with the consent state once Zaraz is ready
+ *
+ * @example
+ * ```typescript
+ * const consentState = await waitForZarazConsent(purposeMapping, {
+ *   timeout: 5000,
+ *   signal: controller.signal,
+ * });
+ * ```
+ */
+export function waitForZarazConsent<C extends string = never>(
+  purposeMapping: PurposeMapping<C>,
+  options: WaitForZarazConsentOptions<C> = {}
+): Promise<ConsentState<C>> {
+  const { timeout = 30000, signal, fallback } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    if (isZarazConsentReady()) {
+      resolve(getZarazConsentState(purposeMapping, options));
+      return;
+    }
+
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      unsubscribe();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+
+    const unsubscribe = onZarazConsentEvent(() => {
+      if (isZarazConsentReady()) {
+        cleanup();
+        resolve(getZarazConsentState(purposeMapping, options));
+      }
+    });
+
+    const timeoutId = setTimeout(() => {
+      cleanup();
+
+      if (fallback) {
+        resolve(fallback);
+      } else {
+        reject(new ZarazConsentTimeoutError(timeout));
+      }
+    }, timeout);
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+/**
+ * Consent state change delivered to onZarazConsentStateChange listeners
+ */
+export interface ZarazConsentStateChange<C extends string = never> {
+  /**
+   * Consent state before the change
+   */
+  previous: ZarazConsentState<C>;
+
+  /**
+   * Consent state after the change
+   */
+  current: ZarazConsentState<C>;
+
+  /**
+   * Categories whose consent changed
+   */
+  changed: (BaseConsentCategory | C)[];
+}
+
+/**
+ * Subscribes to changes of the consent state for all mapped purposes
+ * @param purposeMapping The purpose mapping configuration
+ * @param listener Called with the previous and current state whenever a category changes
+ * @param options Optional category bindings, consent cookie and privacy signal settings
+ * @returns Function that removes the subscription
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = onZarazConsentStateChange(
+ *   purposeMapping,
+ *   ({ current, changed }) => {
+ *     if (changed.includes('analytics') && !current.analytics) {
+ *       analytics.stop();
+ *     }
+ *   }
+ * );
+ * ```
+ */
+export function onZarazConsentStateChange<C extends string = never>(
+  purposeMapping: PurposeMapping<C>,
+  listener: (change: ZarazConsentStateChange<C>) => void,
+  options: ZarazConsentStateOptions<C> = {}
+): () => void {
+  const categories = [
+    ...new Set([...BASE_CONSENT_CATEGORIES, ...Object.keys(purposeMapping)]),
+  ] as (BaseConsentCategory | C)[];
+
+  let previous = getZarazConsentState(purposeMapping, options);
+
+  return onZarazConsentEvent(() => {
+    const current = getZarazConsentState(purposeMapping, options);
+    const changed = categories.filter(
+      (category) => current[category] !== previous[category]
+    );
+
+    // Zaraz may dispatch the same choices several times in a row
+    if (changed.length === 0) {
+      return;
+    }
+
+    const change = { previous, current, changed };
+    previous = current;
+    listener(change);
+  });
+}
+
+export {
+  createGoogleConsentModeProvider,
+  getGoogleConsentModeState,
+  updateGoogleConsentMode,
+} from './google-consent-mode.js';
+
+export { combineConsentProviders } from './consent-provider.js';
+export { setConsentedUser } from './consented-user.js';
+export {
+  getStorageAccessReport,
+  SENTRY_STORAGE_KEYS,
+} from './storage-gating.js';
+export {
+  DEFAULT_EVENT_SCRUBBERS,
+  scrubBreadcrumbUrls,
+  scrubCookies,
+  scrubIpAddress,
+  scrubQueryStrings,
+  scrubRequestHeaders,
+  scrubUser,
+} from './event-scrubbing.js';
+export { createTcfConsentProvider } from './tcf.js';
+export { createZarazConsentProvider } from './zaraz-provider.js';
+
+export {
+  parseZarazConsentCookie,
+  readZarazConsentCookie,
+  ZARAZ_CONSENT_COOKIE,
+} from './cookies.js';
+
 // Backward compatibility exports
 export {
   sentryZarazConsentIntegration as default,
   sentryZarazConsentIntegration as sentryConsentIntegration,
 };
-
-// Legacy type aliases for backward compatibility
-export type PurposeMapping =
-  SentryZarazConsentIntegrationOptions['purposeMapping'];
-export type ConsentState = ReturnType<typeof getZarazConsentState>;
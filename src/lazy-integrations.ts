@@ -0,0 +1,101 @@
+/**
+ * Lazy Integrations
+ *
+ * Loads consent-gated Sentry integrations only once their category has been
+ * granted, so users who never consent do not download them.
+ */
+
+import type { Client, Integration } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Loads an integration, e.g. through `Sentry.lazyLoadIntegration` or a
+ * dynamic import
+ */
+export type LazyIntegrationFactory = () => Promise<Integration>;
+
+/**
+ * Integration factories keyed by the category that must be granted before
+ * they are loaded
+ */
+export type LazyIntegrationRegistry<C extends string = never> = {
+  [K in BaseConsentCategory | C]?:
+    | LazyIntegrationFactory
+    | LazyIntegrationFactory[];
+};
+
+interface LazyIntegrationsContext {
+  registry: LazyIntegrationRegistry<string>;
+  getConsentState: () => Record<string, boolean>;
+  subscribe: (listener: () => void) => () => void;
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that the registered integrations of each category
+ * are loaded and added to the client the first time the category is granted.
+ * Factories that fail are retried on the next consent change.
+ */
+export function withLazyIntegrations(
+  integration: Integration,
+  context: LazyIntegrationsContext
+): Integration {
+  const { registry, getConsentState, subscribe, debug } = context;
+
+  // Factories that are loading or loaded, each is only added once
+  const started = new Set<LazyIntegrationFactory>();
+
+  const log = createDebugLogger(debug);
+
+  const load = (client: Client) => {
+    const consentState = getConsentState();
+
+    for (const [category, factories] of Object.entries(registry)) {
+      if (!factories || !consentState[category]) {
+        continue;
+      }
+
+      for (const factory of Array.isArray(factories)
+        ? factories
+        : [factories]) {
+        if (started.has(factory)) {
+          continue;
+        }
+
+        started.add(factory);
+
+        factory().then(
+          (lazyIntegration) => {
+            // Consent may have been revoked while the integration was loading
+            if (!getConsentState()[category]) {
+              started.delete(factory);
+              return;
+            }
+
+            client.addIntegration(lazyIntegration);
+            log(
+              `Loaded ${lazyIntegration.name} integration, ${category} consent granted`
+            );
+          },
+          (error: unknown) => {
+            started.delete(factory);
+            log(`Failed to load ${category} integration:`, error);
+          }
+        );
+      }
+    }
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      integration.setup?.(client);
+
+      subscribe(() => load(client));
+
+      // Returning users may already have granted consent
+      load(client);
+    },
+  };
+}
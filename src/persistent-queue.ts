@@ -0,0 +1,202 @@
+/**
+ * Persistent Consent Queue
+ *
+ * Carries events captured while consent is pending across page loads, and
+ * flushes or purges them once the user's Zaraz choices are known.
+ */
+
+import type { Client, Event, Integration } from '@sentry/types';
+import { getEventCategory } from './consent-buffer.js';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Configuration options for the persistent consent queue
+ */
+export interface PersistentQueueOptions {
+  /**
+   * Storage backing the queue
+   * @default window.localStorage
+   */
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+  /**
+   * Storage key the queue is persisted under
+   * @default 'sentry-zaraz-consent-queue'
+   */
+  storageKey?: string;
+
+  /**
+   * Maximum number of queued events, the oldest events are dropped first
+   * @default 30
+   */
+  maxSize?: number;
+
+  /**
+   * Maximum size of the serialized queue in characters
+   * @default 500000
+   */
+  maxBytes?: number;
+
+  /**
+   * Time in milliseconds after which a queued event expires
+   * @default 3600000 (1 hour)
+   */
+  maxAge?: number;
+}
+
+interface QueuedEvent {
+  category: BaseConsentCategory;
+  event: Event;
+  queuedAt: number;
+}
+
+interface PersistentQueueContext {
+  options: PersistentQueueOptions;
+  isPending: (category: BaseConsentCategory) => boolean;
+  /**
+   * Whether the user denied the category, regardless of its denial mode
+   */
+  isDenied: (category: BaseConsentCategory) => boolean;
+  subscribe: (listener: () => void) => () => void;
+  getConsentState: () => Record<BaseConsentCategory, boolean>;
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that events captured while consent is pending are
+ * persisted, then re-captured or purged when the consent provider reports a
+ * change. Events are queued before they reach the wrapped integration, so a
+ * consent buffer it wraps only receives breadcrumbs.
+ */
+export function withPersistentQueue(
+  integration: Integration,
+  context: PersistentQueueContext
+): Integration {
+  const { options, isPending, isDenied, subscribe, getConsentState, debug } =
+    context;
+  const {
+    storageKey = 'sentry-zaraz-consent-queue',
+    maxSize = 30,
+    maxBytes = 500000,
+    maxAge = 3600000,
+  } = options;
+
+  const log = createDebugLogger(debug);
+
+  const getStorage = () => {
+    if (options.storage) {
+      return options.storage;
+    }
+
+    return typeof window !== 'undefined' ? window.localStorage : undefined;
+  };
+
+  const read = (): QueuedEvent[] => {
+    try {
+      const serialized = getStorage()?.getItem(storageKey);
+      const queue: QueuedEvent[] = serialized ? JSON.parse(serialized) : [];
+      const now = Date.now();
+      return queue.filter((item) => now - item.queuedAt < maxAge);
+    } catch (error) {
+      log('Failed to read persistent consent queue:', error);
+      return [];
+    }
+  };
+
+  const write = (queue: QueuedEvent[]) => {
+    try {
+      const storage = getStorage();
+
+      if (queue.length === 0) {
+        storage?.removeItem(storageKey);
+        return;
+      }
+
+      let trimmed = queue.slice(-maxSize);
+      let serialized = JSON.stringify(trimmed);
+
+      while (trimmed.length > 0 && serialized.length > maxBytes) {
+        trimmed = trimmed.slice(1);
+        serialized = JSON.stringify(trimmed);
+      }
+
+      storage?.setItem(storageKey, serialized);
+    } catch (error) {
+      log('Failed to write persistent consent queue:', error);
+    }
+  };
+
+  const isFunctionalDenied = () =>
+    !isPending('functional') && isDenied('functional');
+
+  const flush = (client: Client) => {
+    const queue = read();
+
+    if (queue.length === 0) {
+      // Also clears expired events
+      write(queue);
+      return;
+    }
+
+    const consentState = getConsentState();
+    const remaining: QueuedEvent[] = [];
+    let forwarded = 0;
+
+    for (const item of queue) {
+      if (isPending(item.category)) {
+        remaining.push(item);
+      } else if (consentState[item.category]) {
+        client.captureEvent(item.event);
+        forwarded++;
+      }
+    }
+
+    // Never keep anything around once functional consent has been denied
+    write(isFunctionalDenied() ? [] : remaining);
+
+    log(
+      `Flushed persistent consent queue: ${forwarded} forwarded, ${
+        queue.length - forwarded - remaining.length
+      } purged, ${remaining.length} still pending`
+    );
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      integration.setup?.(client);
+
+      subscribe(() => flush(client));
+    },
+    afterAllSetup(client: Client) {
+      integration.afterAllSetup?.(client);
+
+      // Returning users may already have answered the consent modal. Deferred
+      // until every integration is set up, so that re-captured events pass
+      // through all of their processors.
+      flush(client);
+    },
+    processEvent(event, hint, client) {
+      const category = getEventCategory(event);
+
+      if (isPending(category)) {
+        if (!isFunctionalDenied()) {
+          // Scope breadcrumbs are applied again when the event is re-captured
+          const { breadcrumbs: _breadcrumbs, ...queuedEvent } = event;
+          write([
+            ...read(),
+            { category, event: queuedEvent, queuedAt: Date.now() },
+          ]);
+          log('Queued event until Zaraz consent is resolved');
+        }
+
+        return null;
+      }
+
+      return integration.processEvent
+        ? integration.processEvent(event, hint, client)
+        : event;
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Privacy Signals
+ *
+ * Combines browser privacy signals (Global Privacy Control and Do Not Track)
+ * with the Zaraz consent state.
+ */
+
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Browser privacy signals that can deny consent categories
+ */
+export type PrivacySignal = 'globalPrivacyControl' | 'doNotTrack';
+
+/**
+ * Categories each browser signal denies, even if the Zaraz purposes are granted
+ * - true: Denies the marketing category
+ * - string[]: Denies the given base and custom categories
+ * - false: The signal is ignored
+ */
+export type PrivacySignalOptions<C extends string = never> = {
+  [K in PrivacySignal]?: boolean | (BaseConsentCategory | C)[];
+};
+
+/**
+ * Gets the privacy signals currently sent by the browser
+ */
+function getActivePrivacySignals(): PrivacySignal[] {
+  if (typeof navigator === 'undefined') {
+    return [];
+  }
+
+  const signals: PrivacySignal[] = [];
+  const browserNavigator = navigator as Navigator & {
+    globalPrivacyControl?: boolean;
+    msDoNotTrack?: string;
+  };
+
+  if (browserNavigator.globalPrivacyControl === true) {
+    signals.push('globalPrivacyControl');
+  }
+
+  const doNotTrack =
+    browserNavigator.doNotTrack ??
+    browserNavigator.msDoNotTrack ??
+    (typeof window !== 'undefined'
+      ? (window as Window & { doNotTrack?: string }).doNotTrack
+      : undefined);
+
+  if (doNotTrack === '1' || doNotTrack === 'yes') {
+    signals.push('doNotTrack');
+  }
+
+  return signals;
+}
+
+/**
+ * Denies the categories targeted by active privacy signals
+ * @param state Consent state to restrict in place
+ * @param options Categories each privacy signal denies
+ * @returns Map of categories denied by a privacy signal to that signal
+ */
+export function applyPrivacySignals(
+  state: Record<string, boolean>,
+  options: PrivacySignalOptions<string>
+): Record<string, PrivacySignal> {
+  const deniedBySignal: Record<string, PrivacySignal> = {};
+
+  for (const signal of getActivePrivacySignals()) {
+    const setting = options[signal];
+    const categories =
+      setting === true ? ['marketing'] : Array.isArray(setting) ? setting : [];
+
+    for (const category of categories) {
+      if (state[category] && !(category in deniedBySignal)) {
+        state[category] = false;
+        deniedBySignal[category] = signal;
+      }
+    }
+  }
+
+  return deniedBySignal;
+}
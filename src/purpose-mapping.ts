@@ -0,0 +1,281 @@
+/**
+ * Purpose Mapping
+ *
+ * Types and evaluation of the mapping from consent categories to Zaraz
+ * purposes. This module has no browser dependencies, so it is shared by the
+ * browser integration and the server entry point.
+ */
+
+/**
+ * Consent categories understood by the base integration, each bound to a
+ * fixed set of Sentry features
+ */
+export type BaseConsentCategory =
+  | 'functional'
+  | 'analytics'
+  | 'marketing'
+  | 'preferences';
+
+export const BASE_CONSENT_CATEGORIES: readonly BaseConsentCategory[] = [
+  'functional',
+  'analytics',
+  'marketing',
+  'preferences',
+];
+
+/**
+ * Composable rule evaluated against Zaraz purposes
+ * - string: The Zaraz purpose ID must be granted
+ * - { anyOf }: At least one of the nested rules must hold
+ * - { allOf }: Every nested rule must hold
+ * - { not }: The nested rule must not hold
+ *
+ * @example
+ * ```typescript
+ * // Granted if either 'USeX' or 'perf' is granted, but never if 'optout' is set
+ * { allOf: [{ anyOf: ['USeX', 'perf'] }, { not: 'optout' }] }
+ * ```
+ */
+export type PurposeRule =
+  | string
+  | { anyOf: PurposeRule[] }
+  | { allOf: PurposeRule[] }
+  | { not: PurposeRule };
+
+/**
+ * Value accepted for a single consent category in the purpose mapping
+ */
+export type PurposeMappingValue = string[] | boolean | PurposeRule;
+
+/**
+ * Mapping of consent categories to Zaraz purposes
+ * Each category can be mapped to:
+ * - string[]: Array of Zaraz purpose IDs that must all be granted
+ * - boolean: Always granted (true) or always denied (false)
+ * - PurposeRule: Nested anyOf/allOf/not expression over Zaraz purpose IDs
+ *
+ * Besides the four base categories, any custom category name may be mapped.
+ */
+export type PurposeMapping<C extends string = never> = {
+  [K in BaseConsentCategory]?: PurposeMappingValue;
+} & {
+  [K in C]?: PurposeMappingValue;
+};
+
+/**
+ * Binds custom categories to base categories. Sentry features controlled by
+ * a base category additionally require every custom category bound to it.
+ */
+export type CategoryBindings<C extends string = never> = {
+  [K in Exclude<C, BaseConsentCategory>]?:
+    | BaseConsentCategory
+    | BaseConsentCategory[];
+};
+
+/**
+ * Resolved consent state for the base and custom categories
+ */
+export type ConsentState<C extends string = never> = Record<
+  BaseConsentCategory | C,
+  boolean
+>;
+
+/**
+ * Gets the consent choice recorded for a Zaraz purpose ID, undefined if the
+ * user has not decided yet
+ */
+export type PurposeGetter = (purposeId: string) => boolean | undefined;
+
+/**
+ * Resolves the consent state for all mapped categories
+ * @param purposeMapping The purpose mapping configuration
+ * @param getPurpose Source of purpose choices, undefined if none are available
+ * @param categoryBindings Optional category bindings applied to the base categories
+ * @param restrict Optional callback denying categories before bindings are applied
+ * @returns Object with consent state for each base and custom category
+ */
+export function resolveConsentState<C extends string = never>(
+  purposeMapping: PurposeMapping<C>,
+  getPurpose: PurposeGetter | undefined,
+  categoryBindings?: CategoryBindings<C>,
+  restrict?: (state: Record<string, boolean>) => void
+): ConsentState<C> {
+  const mapping: Record<string, PurposeMappingValue | undefined> =
+    purposeMapping;
+  const state: Record<string, boolean> = {};
+
+  for (const category of BASE_CONSENT_CATEGORIES) {
+    state[category] = checkZarazConsent(mapping[category], getPurpose);
+  }
+
+  for (const category of Object.keys(mapping)) {
+    if (!(category in state)) {
+      state[category] = checkZarazConsent(mapping[category], getPurpose);
+    }
+  }
+
+  restrict?.(state);
+  applyCategoryBindings(state, mapping, categoryBindings);
+
+  return state as ConsentState<C>;
+}
+
+/**
+ * Checks whether the user has yet to decide on a consent category, i.e. no
+ * purpose choices are available or a referenced purpose has no recorded choice
+ */
+export function isCategoryPending<C extends string = never>(
+  category: BaseConsentCategory,
+  purposeMapping: PurposeMapping<C>,
+  getPurpose: PurposeGetter | undefined,
+  categoryBindings?: CategoryBindings<C>
+): boolean {
+  const mapping: Record<string, PurposeMappingValue | undefined> =
+    purposeMapping;
+  const boundCategories = getBoundCategories(category, categoryBindings ?? {});
+
+  const purposeIds = [category, ...boundCategories].flatMap((mapped) => {
+    const value = mapping[mapped];
+    return typeof value === 'boolean' || !value ? [] : collectPurposeIds(value);
+  });
+
+  if (purposeIds.length === 0) {
+    return false;
+  }
+
+  if (!getPurpose) {
+    return true;
+  }
+
+  return purposeIds.some((purposeId) => getPurpose(purposeId) === undefined);
+}
+
+/**
+ * Helper function to check consent for a specific purpose mapping
+ */
+function checkZarazConsent(
+  mapping: PurposeMappingValue | undefined,
+  getPurpose: PurposeGetter | undefined
+): boolean {
+  // Handle boolean values (always grant/deny)
+  if (typeof mapping === 'boolean') {
+    return mapping;
+  }
+
+  // Handle undefined (not configured)
+  if (!mapping) {
+    return false;
+  }
+
+  // Check if purpose choices are available
+  if (!getPurpose) {
+    return false;
+  }
+
+  // Handle array of purpose IDs - all specified purposes must be granted
+  if (Array.isArray(mapping)) {
+    return mapping.every((purposeId) => getPurpose(purposeId) === true);
+  }
+
+  return evaluatePurposeRule(mapping, getPurpose);
+}
+
+/**
+ * Recursively evaluates a purpose rule against the recorded purpose choices
+ */
+function evaluatePurposeRule(
+  rule: PurposeRule,
+  getPurpose: PurposeGetter
+): boolean {
+  if (typeof rule === 'string') {
+    return getPurpose(rule) === true;
+  }
+
+  if ('anyOf' in rule) {
+    return rule.anyOf.some((nested) => evaluatePurposeRule(nested, getPurpose));
+  }
+
+  if ('allOf' in rule) {
+    return rule.allOf.every((nested) =>
+      evaluatePurposeRule(nested, getPurpose)
+    );
+  }
+
+  if ('not' in rule) {
+    return !evaluatePurposeRule(rule.not, getPurpose);
+  }
+
+  return false;
+}
+
+/**
+ * Collects every Zaraz purpose ID referenced by a purpose rule
+ */
+function collectPurposeIds(rule: string[] | PurposeRule): string[] {
+  if (Array.isArray(rule)) {
+    return rule;
+  }
+
+  if (typeof rule === 'string') {
+    return [rule];
+  }
+
+  if ('anyOf' in rule) {
+    return rule.anyOf.flatMap((nested) => collectPurposeIds(nested));
+  }
+
+  if ('allOf' in rule) {
+    return rule.allOf.flatMap((nested) => collectPurposeIds(nested));
+  }
+
+  return collectPurposeIds(rule.not);
+}
+
+/**
+ * Gets the custom categories bound to a base category
+ */
+function getBoundCategories(
+  category: BaseConsentCategory,
+  categoryBindings: Record<
+    string,
+    BaseConsentCategory | BaseConsentCategory[] | undefined
+  >
+): string[] {
+  return Object.keys(categoryBindings).filter((custom) => {
+    const targets = categoryBindings[custom];
+    return Array.isArray(targets)
+      ? targets.includes(category)
+      : targets === category;
+  });
+}
+
+/**
+ * Restricts base categories by the custom categories bound to them
+ * @param state Consent state to restrict, modified in place
+ * @param mapping Purpose mapping, base categories it does not map are
+ * governed solely by their bound categories
+ * @param categoryBindings Category bindings to apply
+ */
+export function applyCategoryBindings(
+  state: Record<string, boolean>,
+  mapping: Record<string, PurposeMappingValue | undefined>,
+  categoryBindings: Record<
+    string,
+    BaseConsentCategory | BaseConsentCategory[] | undefined
+  > = {}
+): void {
+  for (const category of BASE_CONSENT_CATEGORIES) {
+    const boundCategories = getBoundCategories(category, categoryBindings);
+
+    if (boundCategories.length === 0) {
+      continue;
+    }
+
+    // An unmapped base category is governed solely by its bound categories
+    const ownConsent =
+      mapping[category] === undefined ? true : state[category] === true;
+
+    state[category] =
+      ownConsent && boundCategories.every((custom) => state[custom] === true);
+  }
+}
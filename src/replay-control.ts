@@ -0,0 +1,165 @@
+/**
+ * Replay Control
+ *
+ * Starts and stops Session Replay as the consent category controlling it is
+ * granted and revoked, instead of only relying on the sample rates at init.
+ */
+
+import type { Client, Integration } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+import { withTelemetryConsent } from './telemetry-consent.js';
+
+/**
+ * Configuration options for controlling Session Replay
+ */
+export interface ReplayControlOptions<C extends string = never> {
+  /**
+   * Category that controls Session Replay
+   * @default 'preferences'
+   */
+  category?: BaseConsentCategory | C;
+}
+
+/**
+ * Public methods of the Sentry Replay integration used to control recording
+ */
+interface ReplayIntegration extends Integration {
+  start(): void;
+  startBuffering(): void;
+  stop(): Promise<void>;
+  getReplayId(): string | undefined;
+  getRecordingMode(): 'session' | 'buffer' | undefined;
+  flush(): Promise<void>;
+}
+
+interface ReplayControlContext {
+  options: ReplayControlOptions<string>;
+  getConsentState: () => Record<string, boolean>;
+  /**
+   * Replay sample rates overriding the configured ones, e.g. from the
+   * matching sampling tier
+   */
+  getSampleRates?: () => {
+    replaysSessionSampleRate?: number;
+    replaysOnErrorSampleRate?: number;
+  };
+  subscribe: (listener: () => void) => () => void;
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that Session Replay is stopped when its category is
+ * revoked and started again, according to the original sample rates or the
+ * overriding ones, when it is granted. Replay envelopes are dropped while the
+ * category is denied, so the buffer flushed by `stop()` is discarded.
+ *
+ * Replay reads its on-error sample rate once at setup, when the base
+ * integration has already zeroed it, so a replay buffering since a grant is
+ * flushed by this wrapper when a sampled error is sent.
+ */
+export function withReplayControl(
+  integration: Integration,
+  context: ReplayControlContext
+): Integration {
+  const { options, getConsentState, getSampleRates, subscribe, debug } =
+    context;
+  const { category = 'preferences' } = options;
+
+  const log = createDebugLogger(debug);
+
+  const gated = withTelemetryConsent(integration, {
+    mapping: { replay: category },
+    getConsentState,
+    debug,
+  });
+
+  return {
+    ...gated,
+    setup(client: Client) {
+      // The base integration zeroes the replay sample rates without consent
+      const { replaysSessionSampleRate = 0, replaysOnErrorSampleRate = 0 } =
+        client.getOptions() as {
+          replaysSessionSampleRate?: number;
+          replaysOnErrorSampleRate?: number;
+        };
+
+      gated.setup?.(client);
+
+      let granted = Boolean(getConsentState()[category]);
+      // On-error sample rate of the replay buffering since a grant
+      let bufferSampleRate: number | undefined;
+
+      client.on('afterSendEvent', (event, sendResponse) => {
+        const replay = client.getIntegrationByName<ReplayIntegration>('Replay');
+        const statusCode = sendResponse?.statusCode;
+
+        // Like Replay, only errors that reached Sentry are linked to a replay
+        if (
+          bufferSampleRate === undefined ||
+          !replay ||
+          replay.getRecordingMode() !== 'buffer' ||
+          event.type ||
+          !event.exception ||
+          !statusCode ||
+          statusCode < 200 ||
+          statusCode >= 300
+        ) {
+          return;
+        }
+
+        if (Math.random() < bufferSampleRate) {
+          bufferSampleRate = undefined;
+          log('Flushing buffered Session Replay after an error');
+          replay.flush().catch((error: unknown) => {
+            log('Failed to flush Session Replay:', error);
+          });
+        }
+      });
+
+      subscribe(() => {
+        const isGranted = Boolean(getConsentState()[category]);
+
+        if (isGranted === granted) {
+          return;
+        }
+
+        granted = isGranted;
+        bufferSampleRate = undefined;
+
+        const replay = client.getIntegrationByName<ReplayIntegration>('Replay');
+
+        if (!replay) {
+          return;
+        }
+
+        if (!granted) {
+          log(`Stopping Session Replay, ${category} consent revoked`);
+          replay.stop().catch((error: unknown) => {
+            log('Failed to stop Session Replay:', error);
+          });
+          return;
+        }
+
+        if (replay.getReplayId()) {
+          return;
+        }
+
+        const sampleRates = {
+          replaysSessionSampleRate,
+          replaysOnErrorSampleRate,
+          ...getSampleRates?.(),
+        };
+
+        if (Math.random() < sampleRates.replaysSessionSampleRate) {
+          log(`Starting Session Replay, ${category} consent granted`);
+          replay.start();
+        } else if (sampleRates.replaysOnErrorSampleRate > 0) {
+          log(`Buffering Session Replay, ${category} consent granted`);
+          replay.startBuffering();
+          bufferSampleRate = sampleRates.replaysOnErrorSampleRate;
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Sampling Tiers
+ *
+ * Applies consent-dependent sample rates, e.g. a small sample of errors for
+ * users who only granted functional consent, and full sampling with traces
+ * for fully consenting users.
+ */
+
+import type { Client, Integration } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Sample rates applied while a combination of categories is granted
+ */
+export interface SamplingTier<C extends string = never> {
+  /**
+   * Categories that must all be granted for the tier to apply
+   */
+  categories: (BaseConsentCategory | C)[];
+
+  sampleRate?: number;
+  tracesSampleRate?: number;
+  profilesSampleRate?: number;
+  replaysSessionSampleRate?: number;
+  replaysOnErrorSampleRate?: number;
+}
+
+/**
+ * Client options a sampling tier can set
+ */
+type SampleRateOption = Exclude<keyof SamplingTier, 'categories'>;
+
+const SAMPLE_RATE_OPTIONS: readonly SampleRateOption[] = [
+  'sampleRate',
+  'tracesSampleRate',
+  'profilesSampleRate',
+  'replaysSessionSampleRate',
+  'replaysOnErrorSampleRate',
+];
+
+/**
+ * Categories the base integration zeroes each rate without, `sampleRate` is
+ * not adjusted by it
+ */
+const SAMPLE_RATE_CATEGORIES: Partial<
+  Record<SampleRateOption, BaseConsentCategory>
+> = {
+  tracesSampleRate: 'analytics',
+  profilesSampleRate: 'analytics',
+  replaysSessionSampleRate: 'preferences',
+  replaysOnErrorSampleRate: 'preferences',
+};
+
+/**
+ * Gets the first tier whose categories are all granted
+ * @param tiers Sampling tiers, most permissive first
+ * @param consentState Resolved consent state
+ * @returns The matching tier, undefined if none matches
+ */
+export function resolveSamplingTier(
+  tiers: readonly SamplingTier<string>[],
+  consentState: Record<string, boolean>
+): SamplingTier<string> | undefined {
+  return tiers.find((tier) =>
+    tier.categories.every((category) => consentState[category])
+  );
+}
+
+interface SamplingTiersContext {
+  tiers: readonly SamplingTier<string>[];
+  getConsentState: () => Record<string, boolean>;
+  /**
+   * Whether the base integration enables the Sentry features of a category
+   */
+  isEnabled: (category: BaseConsentCategory) => boolean;
+  /**
+   * Subscribes to consent changes, listeners are called once the base
+   * integration has adjusted the client options for the change
+   */
+  subscribe: (listener: () => void) => () => void;
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that the sample rates of the matching tier are set
+ * on the client options whenever consent changes. Rates a tier does not set
+ * fall back to their configured value, zeroed like the base integration does
+ * while their category is disabled.
+ */
+export function withSamplingTiers(
+  integration: Integration,
+  context: SamplingTiersContext
+): Integration {
+  const { tiers, getConsentState, isEnabled, subscribe, debug } = context;
+  const log = createDebugLogger(debug);
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      const clientOptions = client.getOptions() as Partial<
+        Record<SampleRateOption, number>
+      >;
+      const configuredRates = { ...clientOptions };
+
+      integration.setup?.(client);
+
+      const getFallbackRate = (option: SampleRateOption) => {
+        const rate = configuredRates[option];
+        const category = SAMPLE_RATE_CATEGORIES[option];
+
+        return rate !== undefined && category && !isEnabled(category)
+          ? 0
+          : rate;
+      };
+
+      const apply = () => {
+        const tier = resolveSamplingTier(tiers, getConsentState());
+
+        for (const option of SAMPLE_RATE_OPTIONS) {
+          const rate = tier?.[option] ?? getFallbackRate(option);
+
+          if (rate === undefined) {
+            delete clientOptions[option];
+          } else {
+            clientOptions[option] = rate;
+          }
+        }
+
+        log('Applied sampling tier:', tier ?? 'none');
+      };
+
+      // Called after the base integration adjusted the options, so the rates
+      // of the tier take precedence
+      subscribe(apply);
+      apply();
+    },
+  };
+}
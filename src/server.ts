@@ -0,0 +1,100 @@
+/**
+ * Sentry Zaraz Consent Integration - Server Entry Point
+ *
+ * Resolves the Zaraz consent state from the consent cookie of an incoming
+ * request, so that server-side Sentry calls (e.g. in Cloudflare Workers or SSR
+ * handlers) are gated consistently with the browser integration. This entry
+ * point never accesses `window` or `document`.
+ */
+
+import { readZarazConsentCookie, ZARAZ_CONSENT_COOKIE } from './cookies.js';
+import {
+  resolveConsentState,
+  type CategoryBindings,
+  type ConsentState,
+  type PurposeMapping,
+} from './purpose-mapping.js';
+
+export type {
+  BaseConsentCategory,
+  CategoryBindings,
+  ConsentState,
+  PurposeMapping,
+  PurposeMappingValue,
+  PurposeRule,
+} from './purpose-mapping.js';
+
+export {
+  parseZarazConsentCookie,
+  readZarazConsentCookie,
+  ZARAZ_CONSENT_COOKIE,
+} from './cookies.js';
+
+/**
+ * Minimal request shape, compatible with the Fetch API `Request` of Workers,
+ * Node.js and other server runtimes
+ */
+export interface RequestWithHeaders {
+  headers: {
+    get(name: string): string | null;
+  };
+}
+
+/**
+ * Options for resolving the consent state on the server
+ */
+export interface ServerConsentStateOptions<C extends string = never> {
+  /**
+   * Binds custom categories from the purpose mapping to base categories
+   */
+  categoryBindings?: CategoryBindings<C>;
+
+  /**
+   * Name of the Zaraz consent cookie
+   * @default 'cf_consent'
+   */
+  cookieName?: string;
+}
+
+/**
+ * Gets the consent state for all mapped purposes from a request's Zaraz
+ * consent cookie. Categories are denied if the cookie is missing, just like
+ * in the browser before Zaraz is ready.
+ * @param source Incoming request or the value of its `Cookie` header
+ * @param purposeMapping The purpose mapping configuration
+ * @param options Optional category bindings and cookie name
+ * @returns Object with consent state for each base and custom category, the
+ * same shape as `getZarazConsentState` returns in the browser
+ *
+ * @example
+ * ```typescript
+ * import { getServerZarazConsentState } from '@imviidx/sentry-zaraz-consent-integration/server';
+ *
+ * export default {
+ *   async fetch(request) {
+ *     const consentState = getServerZarazConsentState(request, purposeMapping);
+ *
+ *     if (!consentState.functional) {
+ *       // Skip server-side error reporting
+ *     }
+ *   },
+ * };
+ * ```
+ */
+export function getServerZarazConsentState<C extends string = never>(
+  source: RequestWithHeaders | string | null | undefined,
+  purposeMapping: PurposeMapping<C>,
+  options: ServerConsentStateOptions<C> = {}
+): ConsentState<C> {
+  const { categoryBindings, cookieName = ZARAZ_CONSENT_COOKIE } = options;
+
+  const cookieHeader =
+    typeof source === 'string' ? source : source?.headers.get('cookie') ?? '';
+  const purposes = readZarazConsentCookie(cookieHeader, cookieName);
+
+  return resolveConsentState(
+    purposeMapping,
+    purposes && ((purposeId) => purposes[purposeId]),
+    categoryBindings
+  );
+}
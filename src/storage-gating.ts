@@ -0,0 +1,306 @@
+/**
+ * Storage Gating
+ *
+ * Keeps Sentry-owned keys out of localStorage and sessionStorage while the
+ * consent category controlling them is denied, since ePrivacy treats web
+ * storage like cookies. Accesses are served by an in-memory shim instead.
+ */
+
+import type { Client, Integration } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Web storage areas that are gated
+ */
+export type GatedStorage = 'localStorage' | 'sessionStorage';
+
+/**
+ * Keys Sentry writes to web storage, e.g. the sticky Session Replay session
+ */
+export const SENTRY_STORAGE_KEYS: readonly (string | RegExp)[] = [
+  'sentryReplaySession',
+];
+
+/**
+ * Configuration options for storage gating
+ */
+export interface StorageGatingOptions<C extends string = never> {
+  /**
+   * Category that must be granted for Sentry to use web storage
+   * @default 'preferences'
+   */
+  category?: BaseConsentCategory | C;
+
+  /**
+   * Keys owned by Sentry, as exact names or patterns. The keys of the
+   * persistent queue (`sentry-zaraz-consent-queue`) and of the cross-tab sync
+   * storage fallback (`sentry-zaraz-consent-sync`) are not included, add them
+   * to gate those too. The queue then only persists events across page loads
+   * once the category is granted.
+   * @default SENTRY_STORAGE_KEYS
+   */
+  keys?: (string | RegExp)[];
+}
+
+/**
+ * Accesses to a Sentry-owned storage key
+ */
+export interface StorageAccessRecord {
+  storage: GatedStorage;
+  key: string;
+  reads: number;
+  writes: number;
+  removals: number;
+
+  /**
+   * Accesses served by the in-memory shim while the category was denied
+   */
+  shimmed: number;
+
+  /**
+   * Whether the key was cleared from web storage on revocation
+   */
+  cleared: boolean;
+}
+
+interface StorageGatingContext {
+  options: StorageGatingOptions<string>;
+  getConsentState: () => Record<string, boolean>;
+  /**
+   * Whether the user's choices are known, keys are only cleared once they are
+   */
+  isReady: () => boolean;
+  subscribe: (listener: () => void) => () => void;
+  debug: boolean;
+}
+
+const report = new Map<string, StorageAccessRecord>();
+
+/**
+ * Gets the Sentry-owned storage keys accessed since the page loaded, and how
+ * each access was handled
+ * @returns One record per storage area and key
+ */
+export function getStorageAccessReport(): StorageAccessRecord[] {
+  return [...report.values()].map((record) => ({ ...record }));
+}
+
+/**
+ * Gets the access record of a key, creating it on first access
+ */
+function getRecord(storage: GatedStorage, key: string): StorageAccessRecord {
+  const id = `${storage}:${key}`;
+  let record = report.get(id);
+
+  if (!record) {
+    record = {
+      storage,
+      key,
+      reads: 0,
+      writes: 0,
+      removals: 0,
+      shimmed: 0,
+      cleared: false,
+    };
+    report.set(id, record);
+  }
+
+  return record;
+}
+
+/**
+ * Gets the name of a storage area, undefined for other Storage objects
+ */
+function getStorageName(storage: Storage): GatedStorage | undefined {
+  try {
+    if (storage === window.localStorage) {
+      return 'localStorage';
+    }
+
+    if (storage === window.sessionStorage) {
+      return 'sessionStorage';
+    }
+  } catch {
+    // Accessing web storage throws when it is disabled
+  }
+
+  return undefined;
+}
+
+/**
+ * Wraps an integration so that Sentry-owned storage keys are routed to an
+ * in-memory shim while the category is denied. The shim is written to web
+ * storage when the category is granted, and the keys are removed from web
+ * storage when it is denied. While consent is pending, keys stored in earlier
+ * visits, which can only exist with consent, are kept and can still be read.
+ */
+export function withStorageGating(
+  integration: Integration,
+  context: StorageGatingContext
+): Integration {
+  const { options, getConsentState, isReady, subscribe, debug } = context;
+  const { category = 'preferences', keys = SENTRY_STORAGE_KEYS } = options;
+
+  const shim: Record<GatedStorage, Map<string, string>> = {
+    localStorage: new Map(),
+    sessionStorage: new Map(),
+  };
+
+  let denied = true;
+  // Whether the keys were removed from web storage for the current denial
+  let cleared = false;
+
+  const log = createDebugLogger(debug);
+
+  const isSentryKey = (key: string) =>
+    keys.some((pattern) =>
+      typeof pattern === 'string' ? pattern === key : pattern.test(key)
+    );
+
+  const install = () => {
+    if (typeof window === 'undefined' || typeof Storage === 'undefined') {
+      return undefined;
+    }
+
+    const proto = Storage.prototype;
+    const original = {
+      getItem: proto.getItem,
+      setItem: proto.setItem,
+      removeItem: proto.removeItem,
+    };
+
+    // Resolves the storage area if the access must be gated
+    const gate = (storage: Storage, key: string) => {
+      const name = isSentryKey(key) ? getStorageName(storage) : undefined;
+      return name && { name, record: getRecord(name, key) };
+    };
+
+    proto.getItem = function (key: string) {
+      const gated = gate(this, key);
+
+      if (!gated) {
+        return original.getItem.call(this, key);
+      }
+
+      gated.record.reads++;
+
+      if (denied && (cleared || shim[gated.name].has(key))) {
+        gated.record.shimmed++;
+        return shim[gated.name].get(key) ?? null;
+      }
+
+      return original.getItem.call(this, key);
+    };
+
+    proto.setItem = function (key: string, value: string) {
+      const gated = gate(this, key);
+
+      if (!gated) {
+        original.setItem.call(this, key, value);
+        return;
+      }
+
+      gated.record.writes++;
+
+      if (denied) {
+        gated.record.shimmed++;
+        shim[gated.name].set(key, String(value));
+        return;
+      }
+
+      original.setItem.call(this, key, value);
+    };
+
+    proto.removeItem = function (key: string) {
+      const gated = gate(this, key);
+
+      if (!gated) {
+        original.removeItem.call(this, key);
+        return;
+      }
+
+      gated.record.removals++;
+
+      if (denied) {
+        gated.record.shimmed++;
+        shim[gated.name].delete(key);
+      }
+
+      // Removing never stores anything, so it also applies while denied
+      original.removeItem.call(this, key);
+    };
+
+    return original;
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      integration.setup?.(client);
+
+      const original = install();
+
+      if (!original) {
+        return;
+      }
+
+      const forEachStorage = (
+        callback: (name: GatedStorage, storage: Storage) => void
+      ) => {
+        for (const name of ['localStorage', 'sessionStorage'] as const) {
+          try {
+            callback(name, window[name]);
+          } catch (error) {
+            log(`Failed to update ${name}:`, error);
+          }
+        }
+      };
+
+      const sync = () => {
+        if (getConsentState()[category]) {
+          if (denied) {
+            // Keep what Sentry stored while consent was pending
+            forEachStorage((name, storage) => {
+              for (const [key, value] of shim[name]) {
+                original.setItem.call(storage, key, value);
+              }
+
+              shim[name].clear();
+            });
+
+            log(`Sentry storage enabled, ${category} consent granted`);
+          }
+
+          denied = false;
+          cleared = false;
+          return;
+        }
+
+        denied = true;
+
+        if (cleared || !isReady()) {
+          return;
+        }
+
+        cleared = true;
+
+        forEachStorage((name, storage) => {
+          for (let index = storage.length - 1; index >= 0; index--) {
+            const key = storage.key(index);
+
+            if (key !== null && isSentryKey(key)) {
+              original.removeItem.call(storage, key);
+              getRecord(name, key).cleared = true;
+            }
+          }
+        });
+
+        log(`Cleared Sentry storage keys, ${category} consent denied`);
+      };
+
+      subscribe(sync);
+      sync();
+    },
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * IAB TCF Consent Source
+ *
+ * Reads purpose and vendor consent from an IAB TCF v2.2 CMP through
+ * `__tcfapi`, for sites running Zaraz with the IAB TCF CMP enabled.
+ */
+
+import type { ConsentProvider } from './consent-provider.js';
+import type { BaseConsentCategory, PurposeMapping } from './purpose-mapping.js';
+
+/**
+ * Subset of the TCF v2.2 TCData object used to resolve consent
+ */
+export interface TcfData {
+  gdprApplies?: boolean;
+  eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+  listenerId?: number;
+  purpose: {
+    consents: Record<string, boolean | undefined>;
+  };
+  vendor: {
+    consents: Record<string, boolean | undefined>;
+  };
+}
+
+/**
+ * TCF v2.2 CMP API
+ */
+export type TcfApi = (
+  command: string,
+  version: number,
+  callback: (tcData: TcfData, success: boolean) => void,
+  parameter?: unknown
+) => void;
+
+// TCF CMP API for better TypeScript support
+declare global {
+  interface Window {
+    __tcfapi?: TcfApi;
+  }
+}
+
+/**
+ * Configuration options for the IAB TCF consent source
+ */
+export interface TcfConsentOptions<C extends string = never> {
+  /**
+   * Mapping of consent categories to TCF purpose IDs
+   * Each category can be mapped to:
+   * - number[]: Array of TCF purpose IDs that must all be consented
+   * - boolean: Always granted (true) or always denied (false)
+   *
+   * Mapped categories are resolved from TCF instead of Zaraz purposes.
+   */
+  purposeMapping: {
+    [K in BaseConsentCategory | C]?: number[] | boolean;
+  };
+
+  /**
+   * IAB vendor ID that must have vendor consent for any TCF purpose to count
+   * as granted
+   */
+  vendorId?: number;
+}
+
+/**
+ * Prefix of the purpose IDs that refer to TCF purposes
+ */
+export const TCF_PURPOSE_PREFIX = 'tcf:';
+
+/**
+ * Converts a TCF purpose mapping into a purpose mapping over TCF purpose IDs
+ */
+export function toTcfPurposeMapping<C extends string>(
+  tcfPurposeMapping: TcfConsentOptions<C>['purposeMapping']
+): PurposeMapping<C> {
+  const mapping: Record<string, string[] | boolean> = {};
+
+  for (const [category, value] of Object.entries<number[] | boolean>(
+    tcfPurposeMapping as Record<string, number[] | boolean>
+  )) {
+    mapping[category] =
+      typeof value === 'boolean'
+        ? value
+        : value.map((purposeId) => `${TCF_PURPOSE_PREFIX}${purposeId}`);
+  }
+
+  return mapping as PurposeMapping<C>;
+}
+
+/**
+ * Registration of the provider's CMP event listener, the listener ID is known
+ * once the CMP first calls the listener
+ */
+interface TcfRegistration {
+  listenerId: number | undefined;
+  removed: boolean;
+}
+
+/**
+ * Removes a CMP event listener registration
+ */
+function removeTcfListener(registration: TcfRegistration): void {
+  registration.removed = true;
+
+  if (registration.listenerId !== undefined && typeof window !== 'undefined') {
+    window.__tcfapi?.(
+      'removeEventListener',
+      2,
+      () => {},
+      registration.listenerId
+    );
+  }
+}
+
+/**
+ * Creates a consent provider backed by the TCF CMP API. Purpose IDs are TCF
+ * purpose IDs, and the TCData is updated on the `tcloaded` and
+ * `useractioncomplete` events. The CMP event listener is removed when the
+ * last subscriber unsubscribes.
+ * @param options Optional IAB vendor ID that must have vendor consent
+ * @returns Consent provider for the integration
+ */
+export function createTcfConsentProvider(
+  options: Pick<TcfConsentOptions<string>, 'vendorId'> = {}
+): ConsentProvider {
+  const { vendorId } = options;
+  const listeners = new Set<() => void>();
+
+  let tcData: TcfData | undefined;
+  let registration: TcfRegistration | undefined;
+
+  const listen = () => {
+    if (registration || typeof window === 'undefined' || !window.__tcfapi) {
+      return;
+    }
+
+    const current: TcfRegistration = { listenerId: undefined, removed: false };
+    registration = current;
+
+    window.__tcfapi('addEventListener', 2, (data, success) => {
+      if (!success) {
+        return;
+      }
+
+      if (current.listenerId === undefined) {
+        current.listenerId = data.listenerId;
+
+        // Removed before the listener ID was known
+        if (current.removed) {
+          removeTcfListener(current);
+        }
+      }
+
+      if (current.removed) {
+        return;
+      }
+
+      tcData = data;
+
+      if (
+        data.eventStatus === 'tcloaded' ||
+        data.eventStatus === 'useractioncomplete'
+      ) {
+        for (const listener of [...listeners]) {
+          listener();
+        }
+      }
+    });
+  };
+
+  return {
+    name: 'tcf',
+    isReady() {
+      listen();
+      return tcData !== undefined;
+    },
+    getPurposeConsent(purposeId) {
+      listen();
+
+      if (!tcData) {
+        return undefined;
+      }
+
+      // Consent is not required where GDPR does not apply
+      if (tcData.gdprApplies === false) {
+        return true;
+      }
+
+      // The user has not made a choice yet
+      if (tcData.eventStatus === 'cmpuishown') {
+        return undefined;
+      }
+
+      const purposeConsent = tcData.purpose.consents[purposeId] === true;
+      const vendorConsent =
+        vendorId === undefined || tcData.vendor.consents[vendorId] === true;
+
+      return purposeConsent && vendorConsent;
+    },
+    subscribe(listener) {
+      listen();
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+
+        if (listeners.size === 0 && registration) {
+          removeTcfListener(registration);
+          registration = undefined;
+        }
+      };
+    },
+  };
+}
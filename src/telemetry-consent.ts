@@ -0,0 +1,137 @@
+/**
+ * Telemetry Consent
+ *
+ * Maps each kind of Sentry telemetry to the consent categories it requires,
+ * and drops envelope items whose categories are not granted right before the
+ * envelope is sent.
+ */
+
+import { envelopeItemTypeToDataCategory } from '@sentry/core';
+import type {
+  Client,
+  Envelope,
+  EnvelopeItem,
+  EnvelopeItemType,
+  Integration,
+} from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Kinds of Sentry telemetry that can be mapped to consent categories
+ */
+export type TelemetryType =
+  | 'error'
+  | 'transaction'
+  | 'replay'
+  | 'profile'
+  | 'feedback'
+  | 'checkIn'
+  | 'log';
+
+/**
+ * Categories each kind of telemetry requires, all of which must be granted.
+ * Unmapped kinds of telemetry are only gated by the base integration.
+ */
+export type TelemetryConsentMapping<C extends string = never> = {
+  [K in TelemetryType]?: BaseConsentCategory | C | (BaseConsentCategory | C)[];
+};
+
+/**
+ * Envelope item types carrying each kind of telemetry
+ */
+const TELEMETRY_ITEM_TYPES: Record<TelemetryType, string[]> = {
+  error: ['event'],
+  transaction: ['transaction', 'span'],
+  replay: ['replay_event', 'replay_recording'],
+  profile: ['profile', 'profile_chunk'],
+  feedback: ['feedback', 'user_report'],
+  checkIn: ['check_in'],
+  log: ['log', 'otel_log'],
+};
+
+interface TelemetryConsentContext {
+  mapping: TelemetryConsentMapping<string>;
+  getConsentState: () => Record<string, boolean>;
+  debug: boolean;
+}
+
+/**
+ * Wraps an integration so that envelope items are dropped in `beforeEnvelope`
+ * unless every category their telemetry type requires is granted.
+ * Attachments are dropped along with the items they belong to.
+ */
+export function withTelemetryConsent(
+  integration: Integration,
+  context: TelemetryConsentContext
+): Integration {
+  const { mapping, getConsentState, debug } = context;
+  const log = createDebugLogger(debug);
+
+  const requiredCategories = new Map<string, string[]>();
+
+  for (const [telemetryType, categories] of Object.entries(mapping)) {
+    if (!categories) {
+      continue;
+    }
+
+    for (const itemType of TELEMETRY_ITEM_TYPES[
+      telemetryType as TelemetryType
+    ]) {
+      requiredCategories.set(
+        itemType,
+        Array.isArray(categories) ? categories : [categories]
+      );
+    }
+  }
+
+  const filterEnvelope = (client: Client, envelope: Envelope) => {
+    const items = envelope[1] as EnvelopeItem[];
+    const consentState = getConsentState();
+    const dropped: string[] = [];
+
+    const isAllowed = ([headers]: EnvelopeItem) =>
+      (requiredCategories.get(headers.type) ?? []).every(
+        (category) => consentState[category]
+      );
+
+    // Items are removed in place, the envelope is sent after this hook
+    for (let index = items.length - 1; index >= 0; index--) {
+      const item = items[index] as EnvelopeItem;
+      const { type } = item[0];
+
+      if (type !== 'attachment' && !isAllowed(item)) {
+        items.splice(index, 1);
+        dropped.push(type);
+        client.recordDroppedEvent(
+          'event_processor',
+          // Item types newer than the installed SDK have no data category
+          envelopeItemTypeToDataCategory(type as EnvelopeItemType) ?? 'unknown'
+        );
+      }
+    }
+
+    // Attachments never travel on their own
+    if (
+      dropped.length > 0 &&
+      items.every(([headers]) => headers.type === 'attachment')
+    ) {
+      items.splice(0, items.length);
+    }
+
+    if (dropped.length > 0) {
+      log('Dropped envelope items without consent:', dropped);
+    }
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      integration.setup?.(client);
+
+      client.on('beforeEnvelope', (envelope) =>
+        filterEnvelope(client, envelope)
+      );
+    },
+  };
+}
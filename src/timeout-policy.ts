@@ -0,0 +1,130 @@
+/**
+ * Timeout Policy
+ *
+ * Resolves the consent state used when Zaraz does not become ready within
+ * `zarazTimeout`, e.g. because an ad-blocker removed it.
+ */
+
+import { getCookieValue } from './cookies.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Consent state used when Zaraz does not become ready in time
+ * - 'deny-all': Every category is denied
+ * - 'functional-only': Only the functional category is granted
+ * - { type: 'static' }: The given categories are granted or denied, others are denied
+ * - { type: 'cookie' }: Categories are read from a first-party cookie, others are denied
+ */
+export type ZarazTimeoutPolicy<C extends string = never> =
+  | 'deny-all'
+  | 'functional-only'
+  | {
+      type: 'static';
+      state: Partial<Record<BaseConsentCategory | C, boolean>>;
+    }
+  | {
+      type: 'cookie';
+      /**
+       * Name of the cookie holding the consent choices
+       */
+      name: string;
+      /**
+       * Parses the cookie value into category states
+       * @default JSON.parse, e.g. `{"functional":true,"analytics":false}`
+       */
+      parse?: (
+        value: string
+      ) => Partial<Record<BaseConsentCategory | C, boolean>>;
+    };
+
+/**
+ * Details passed to the `onTimeout` callback
+ */
+export interface ZarazTimeoutInfo {
+  /**
+   * Timeout in milliseconds that expired
+   */
+  timeout: number;
+
+  /**
+   * Name of the timeout policy that was applied
+   */
+  policy: 'deny-all' | 'functional-only' | 'static' | 'cookie';
+
+  /**
+   * Consent state the integration falls back to
+   */
+  state: Record<string, boolean>;
+}
+
+/**
+ * Resolves the fallback consent state for a timeout policy
+ * @param policy The timeout policy to apply
+ * @param categories Every base and custom category to include in the state
+ * @returns Object with the fallback consent state for each category
+ */
+export function getTimeoutFallbackState(
+  policy: ZarazTimeoutPolicy<string>,
+  categories: readonly string[]
+): Record<string, boolean> {
+  const state: Record<string, boolean> = {};
+
+  for (const category of categories) {
+    state[category] = false;
+  }
+
+  if (policy === 'deny-all') {
+    return state;
+  }
+
+  if (policy === 'functional-only') {
+    state.functional = true;
+    return state;
+  }
+
+  const overrides =
+    policy.type === 'static' ? policy.state : readCookiePolicy(policy);
+
+  for (const category of categories) {
+    state[category] = overrides[category] === true;
+  }
+
+  return state;
+}
+
+/**
+ * Gets the name of a timeout policy for diagnostics
+ */
+export function getTimeoutPolicyName(
+  policy: ZarazTimeoutPolicy<string>
+): ZarazTimeoutInfo['policy'] {
+  return typeof policy === 'string' ? policy : policy.type;
+}
+
+/**
+ * Reads category states from the cookie named by a cookie policy
+ */
+function readCookiePolicy(
+  policy: Extract<ZarazTimeoutPolicy<string>, { type: 'cookie' }>
+): Partial<Record<string, boolean>> {
+  if (typeof document === 'undefined') {
+    return {};
+  }
+
+  const value = getCookieValue(document.cookie, policy.name);
+
+  if (value === undefined) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = policy.parse
+      ? policy.parse(value)
+      : JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as Partial<Record<string, boolean>>)
+      : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Trace Propagation Guard
+ *
+ * Keeps `sentry-trace` and `baggage` headers off outgoing requests while the
+ * category controlling tracing is denied, since they link a user's requests
+ * across backends even when no transactions are sent.
+ */
+
+import type { Client, Integration } from '@sentry/types';
+import { createDebugLogger } from './debug-logger.js';
+import type { BaseConsentCategory } from './purpose-mapping.js';
+
+/**
+ * Configuration options for the trace propagation guard
+ */
+export interface TracePropagationGuardOptions<C extends string = never> {
+  /**
+   * Category that controls trace propagation
+   * @default 'analytics'
+   */
+  category?: BaseConsentCategory | C;
+}
+
+interface TracePropagationGuardContext {
+  options: TracePropagationGuardOptions<string>;
+  getConsentState: () => Record<string, boolean>;
+  subscribe: (listener: () => void) => () => void;
+  debug: boolean;
+}
+
+/**
+ * Removes the Sentry trace data from a header value
+ * @returns The value to send, undefined if the header must be dropped
+ */
+function stripTraceHeader(name: string, value: string): string | undefined {
+  const header = name.toLowerCase();
+
+  if (header === 'sentry-trace') {
+    return undefined;
+  }
+
+  if (header === 'baggage') {
+    // Baggage may carry entries of other vendors, only Sentry's are removed
+    const entries = value
+      .split(',')
+      .filter((entry) => !entry.trim().startsWith('sentry-'));
+    return entries.length > 0 ? entries.join(',') : undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Patches XMLHttpRequest to remove trace headers while denied. Sentry sets
+ * them through `setRequestHeader`, so they pass this patch. Fetch is not
+ * patched: Sentry instruments it before this integration is set up, so a
+ * wrapper would run before Sentry adds the headers.
+ */
+function installHeaderGuard(isDenied: () => boolean) {
+  if (typeof XMLHttpRequest === 'undefined') {
+    return;
+  }
+
+  const proto = XMLHttpRequest.prototype;
+  const originalSetRequestHeader = proto.setRequestHeader;
+
+  proto.setRequestHeader = function (name: string, value: string) {
+    const headerValue = isDenied() ? stripTraceHeader(name, value) : value;
+
+    if (headerValue !== undefined) {
+      originalSetRequestHeader.call(this, name, headerValue);
+    }
+  };
+}
+
+/**
+ * Wraps an integration so that `tracePropagationTargets` is empty, which keeps
+ * Sentry from adding trace headers to fetch and XHR requests, and trace
+ * headers are removed from XHR requests while the category is denied. The
+ * original targets are restored when the category is granted.
+ */
+export function withTracePropagationGuard(
+  integration: Integration,
+  context: TracePropagationGuardContext
+): Integration {
+  const { options, getConsentState, subscribe, debug } = context;
+  const { category = 'analytics' } = options;
+  const log = createDebugLogger(debug);
+
+  // Browser tracing keeps a reference to this array, so it is updated in place
+  const targets: Array<string | RegExp> = [];
+  let originalTargets: Array<string | RegExp> = [];
+  let denied = true;
+
+  const sync = () => {
+    const isDenied = !getConsentState()[category];
+
+    if (isDenied === denied) {
+      return;
+    }
+
+    denied = isDenied;
+    targets.splice(0, targets.length, ...(denied ? [] : originalTargets));
+
+    log(
+      `Trace propagation ${
+        denied ? 'disabled' : 'restored'
+      }, ${category} consent ${denied ? 'denied' : 'granted'}`
+    );
+  };
+
+  return {
+    ...integration,
+    setup(client: Client) {
+      integration.setup?.(client);
+
+      const clientOptions = client.getOptions();
+
+      // Without targets, Sentry propagates to same-origin requests only,
+      // which is what matching every same-origin path does
+      originalTargets = clientOptions.tracePropagationTargets
+        ? [...clientOptions.tracePropagationTargets]
+        : [/^\/(?!\/)/];
+      clientOptions.tracePropagationTargets = targets;
+
+      installHeaderGuard(() => {
+        sync();
+        return denied;
+      });
+
+      subscribe(sync);
+      sync();
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Zaraz Consent Events
+ *
+ * Shares a single set of document listeners for the Zaraz consent events
+ * between the integration and the public helper APIs.
+ */
+
+/**
+ * DOM events dispatched by Zaraz when its consent API becomes ready or the
+ * user's choices change
+ */
+export type ZarazConsentEventType =
+  | 'zarazConsentAPIReady'
+  | 'zarazConsentChoicesUpdated';
+
+const ZARAZ_CONSENT_EVENTS: readonly ZarazConsentEventType[] = [
+  'zarazConsentAPIReady',
+  'zarazConsentChoicesUpdated',
+];
+
+type ZarazConsentEventListener = (type: ZarazConsentEventType) => void;
+
+const listeners = new Set<ZarazConsentEventListener>();
+
+const handleZarazConsentEvent = (event: Event) => {
+  for (const listener of [...listeners]) {
+    listener(event.type as ZarazConsentEventType);
+  }
+};
+
+/**
+ * Subscribes to the Zaraz consent events. The document listeners are installed
+ * with the first subscriber and removed with the last one.
+ * @returns Function that removes the subscription
+ */
+export function onZarazConsentEvent(
+  listener: ZarazConsentEventListener
+): () => void {
+  if (typeof document === 'undefined') {
+    return () => {};
+  }
+
+  if (listeners.size === 0) {
+    for (const type of ZARAZ_CONSENT_EVENTS) {
+      document.addEventListener(type, handleZarazConsentEvent);
+    }
+  }
+
+  listeners.add(listener);
+
+  return () => {
+    if (!listeners.delete(listener) || listeners.size > 0) {
+      return;
+    }
+
+    for (const type of ZARAZ_CONSENT_EVENTS) {
+      document.removeEventListener(type, handleZarazConsentEvent);
+    }
+  };
+}
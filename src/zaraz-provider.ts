@@ -0,0 +1,70 @@
+/**
+ * Zaraz Consent Provider
+ *
+ * Reads purpose choices from the Zaraz consent API, falling back to the Zaraz
+ * consent cookie before the API is ready if enabled.
+ */
+
+import type { ConsentProvider } from './consent-provider.js';
+import { readZarazConsentCookie } from './cookies.js';
+import type { PurposeGetter } from './purpose-mapping.js';
+import { onZarazConsentEvent } from './zaraz-events.js';
+
+/**
+ * Configuration options for the Zaraz consent provider
+ */
+export interface ZarazConsentProviderOptions {
+  /**
+   * Read the Zaraz consent cookie before the Zaraz consent API is ready. Pass
+   * a string to override the cookie name.
+   * @default false
+   */
+  consentCookie?: boolean | string;
+}
+
+/**
+ * Creates a consent provider backed by the Zaraz consent API and its
+ * `zarazConsentAPIReady` / `zarazConsentChoicesUpdated` events
+ * @param options Optional consent cookie settings
+ * @returns Consent provider for the integration
+ */
+export function createZarazConsentProvider(
+  options: ZarazConsentProviderOptions = {}
+): ConsentProvider {
+  const { consentCookie = false } = options;
+
+  // Gets the source of Zaraz purpose choices: the Zaraz consent API when
+  // available, otherwise the Zaraz consent cookie if enabled
+  const getPurposeGetter = (): PurposeGetter | undefined => {
+    if (typeof window === 'undefined') {
+      return undefined;
+    }
+
+    const consent = window.zaraz?.consent;
+
+    if (consent) {
+      return (purposeId) => consent.get(purposeId);
+    }
+
+    // Returning users have their choices persisted before the API is ready
+    if (consentCookie && typeof document !== 'undefined') {
+      const purposes = readZarazConsentCookie(
+        document.cookie,
+        consentCookie === true ? undefined : consentCookie
+      );
+
+      if (purposes) {
+        return (purposeId) => purposes[purposeId];
+      }
+    }
+
+    return undefined;
+  };
+
+  return {
+    name: 'zaraz',
+    isReady: () => getPurposeGetter() !== undefined,
+    getPurposeConsent: (purposeId) => getPurposeGetter()?.(purposeId),
+    subscribe: onZarazConsentEvent,
+  };
+}
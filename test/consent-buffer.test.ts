@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import {
+  addBreadcrumb,
+  getCurrentScope,
+  getIsolationScope,
+} from '@sentry/core';
+import type { Client, ClientOptions, Event, Integration } from '@sentry/types';
+import { withConsentBuffer } from '../src/consent-buffer.js';
+import type { BaseConsentCategory } from '../src/purpose-mapping.js';
+
+/**
+ * Stand-in for the base integration, which zeroes `maxBreadcrumbs` without
+ * analytics consent at setup and whenever consent changes
+ */
+function createBaseIntegration(
+  options: Partial<ClientOptions>,
+  getConsentState: () => Record<BaseConsentCategory, boolean>
+) {
+  const apply = () => {
+    options.maxBreadcrumbs = getConsentState().analytics ? 50 : 0;
+  };
+
+  const integration: Integration = { name: 'Base', setup: apply };
+
+  return { integration, trigger: apply };
+}
+
+describe('withConsentBuffer', () => {
+  let options: Partial<ClientOptions>;
+  let consentState: Record<BaseConsentCategory, boolean>;
+  let ready: boolean;
+  let listeners: Set<() => void>;
+  let captured: Event[];
+  let client: Client;
+  let trigger: () => void;
+  let buffer: Integration;
+
+  const changeConsent = (state: Partial<typeof consentState>) => {
+    ready = true;
+    consentState = { ...consentState, ...state };
+    trigger();
+
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const getBreadcrumbs = () =>
+    getIsolationScope()
+      .getScopeData()
+      .breadcrumbs.map((breadcrumb) => breadcrumb.message);
+
+  beforeEach(() => {
+    options = { maxBreadcrumbs: 50 };
+    consentState = {
+      functional: false,
+      analytics: false,
+      marketing: false,
+      preferences: false,
+    };
+    ready = false;
+    listeners = new Set();
+    captured = [];
+
+    client = {
+      getOptions: () => options,
+      emit: () => {},
+      captureEvent: (event: Event) => {
+        captured.push(event);
+        return '';
+      },
+    } as unknown as Client;
+
+    getIsolationScope().clear();
+    getCurrentScope().setClient(client);
+
+    const base = createBaseIntegration(options, () => consentState);
+    trigger = base.trigger;
+
+    buffer = withConsentBuffer(base.integration, {
+      options: {},
+      isReady: () => ready,
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      getConsentState: () => consentState,
+      debug: false,
+    });
+    buffer.setup?.(client);
+  });
+
+  it('keeps the breadcrumb limit while consent is not ready', () => {
+    assert.equal(options.maxBreadcrumbs, 50);
+  });
+
+  it('buffers breadcrumbs until consent is ready', () => {
+    addBreadcrumb({ message: 'boot' });
+    assert.deepEqual(getBreadcrumbs(), []);
+
+    changeConsent({ analytics: true });
+    assert.deepEqual(getBreadcrumbs(), ['boot']);
+  });
+
+  it('drops buffered breadcrumbs the resolved consent does not allow', () => {
+    addBreadcrumb({ message: 'boot' });
+
+    changeConsent({ functional: true });
+    assert.equal(options.maxBreadcrumbs, 0);
+    assert.deepEqual(getBreadcrumbs(), []);
+  });
+
+  it('releases buffered events allowed by the resolved consent', () => {
+    assert.equal(buffer.processEvent?.({ message: 'error' }, {}, client), null);
+    assert.equal(
+      buffer.processEvent?.({ type: 'transaction' }, {}, client),
+      null
+    );
+
+    changeConsent({ functional: true });
+    assert.deepEqual(
+      captured.map((event) => event.message ?? event.type),
+      ['error']
+    );
+  });
+});
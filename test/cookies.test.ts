@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  getCookieValue,
+  parseZarazConsentCookie,
+  readZarazConsentCookie,
+} from '../src/cookies.js';
+
+describe('parseZarazConsentCookie', () => {
+  it('decodes a JSON value', () => {
+    assert.deepEqual(parseZarazConsentCookie('{"USeX":true,"dqVA":false}'), {
+      USeX: true,
+      dqVA: false,
+    });
+  });
+
+  it('decodes URI-encoded values', () => {
+    const value = encodeURIComponent('{"USeX":true}');
+
+    assert.deepEqual(parseZarazConsentCookie(value), { USeX: true });
+    assert.deepEqual(parseZarazConsentCookie(encodeURIComponent(value)), {
+      USeX: true,
+    });
+  });
+
+  it('skips purposes without a boolean choice', () => {
+    assert.deepEqual(parseZarazConsentCookie('{"USeX":true,"dqVA":"yes"}'), {
+      USeX: true,
+    });
+  });
+
+  it('rejects values that are not a JSON object', () => {
+    assert.equal(parseZarazConsentCookie('not-json'), undefined);
+    assert.equal(parseZarazConsentCookie('%E0%A4%A'), undefined);
+    assert.equal(parseZarazConsentCookie('[true]'), undefined);
+    assert.equal(parseZarazConsentCookie('null'), undefined);
+  });
+});
+
+describe('readZarazConsentCookie', () => {
+  it('reads the consent cookie from a cookie header', () => {
+    const header = `session=abc; cf_consent=${encodeURIComponent(
+      '{"USeX":true}'
+    )}; theme=dark`;
+
+    assert.deepEqual(readZarazConsentCookie(header), { USeX: true });
+    assert.equal(getCookieValue(header, 'theme'), 'dark');
+  });
+
+  it('returns undefined when the cookie is not set', () => {
+    assert.equal(readZarazConsentCookie('session=abc'), undefined);
+  });
+});
@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  isCategoryPending,
+  resolveConsentState,
+  type PurposeGetter,
+} from '../src/purpose-mapping.js';
+
+/**
+ * Creates a purpose getter from recorded purpose choices
+ */
+function purposes(choices: Record<string, boolean>): PurposeGetter {
+  return (purposeId) => choices[purposeId];
+}
+
+describe('resolveConsentState', () => {
+  it('requires every purpose of an array', () => {
+    const state = resolveConsentState(
+      { functional: ['a'], analytics: ['a', 'b'] },
+      purposes({ a: true, b: false })
+    );
+
+    assert.equal(state.functional, true);
+    assert.equal(state.analytics, false);
+  });
+
+  it('applies boolean mappings without purpose choices', () => {
+    const state = resolveConsentState(
+      { functional: true, analytics: ['a'], marketing: false },
+      undefined
+    );
+
+    assert.deepEqual(state, {
+      functional: true,
+      analytics: false,
+      marketing: false,
+      preferences: false,
+    });
+  });
+
+  it('evaluates anyOf, allOf and not rules', () => {
+    const getPurpose = purposes({ a: false, b: true, optout: true });
+
+    const state = resolveConsentState(
+      {
+        functional: { anyOf: ['a', 'b'] },
+        analytics: { allOf: ['a', 'b'] },
+        marketing: { not: 'a' },
+        preferences: { allOf: [{ anyOf: ['a', 'b'] }, { not: 'optout' }] },
+      },
+      getPurpose
+    );
+
+    assert.deepEqual(state, {
+      functional: true,
+      analytics: false,
+      marketing: true,
+      preferences: false,
+    });
+  });
+
+  it('resolves custom categories', () => {
+    const state = resolveConsentState<'ai'>(
+      { functional: true, ai: ['c'] },
+      purposes({ c: true })
+    );
+
+    assert.equal(state.ai, true);
+  });
+
+  it('requires the custom categories bound to a base category', () => {
+    const mapping = { analytics: ['a'], ai: ['c'] };
+    const bindings = { ai: 'analytics' as const };
+
+    assert.equal(
+      resolveConsentState<'ai'>(mapping, purposes({ a: true }), bindings)
+        .analytics,
+      false
+    );
+    assert.equal(
+      resolveConsentState<'ai'>(
+        mapping,
+        purposes({ a: true, c: true }),
+        bindings
+      ).analytics,
+      true
+    );
+  });
+
+  it('governs unmapped base categories by their bound categories', () => {
+    const state = resolveConsentState<'ai'>(
+      { ai: ['c'] },
+      purposes({ c: true }),
+      { ai: ['analytics', 'marketing'] }
+    );
+
+    assert.equal(state.analytics, true);
+    assert.equal(state.marketing, true);
+    assert.equal(state.functional, false);
+  });
+
+  it('restricts categories before bindings are applied', () => {
+    const state = resolveConsentState<'ai'>(
+      { analytics: ['a'], ai: ['c'] },
+      purposes({ a: true, c: true }),
+      { ai: 'analytics' },
+      (restricted) => {
+        restricted.ai = false;
+      }
+    );
+
+    assert.equal(state.analytics, false);
+  });
+});
+
+describe('isCategoryPending', () => {
+  it('is pending while a referenced purpose has no choice', () => {
+    const mapping = { analytics: { anyOf: ['a', 'b'] } };
+
+    assert.equal(isCategoryPending('analytics', mapping, undefined), true);
+    assert.equal(
+      isCategoryPending('analytics', mapping, purposes({ a: true })),
+      true
+    );
+    assert.equal(
+      isCategoryPending('analytics', mapping, purposes({ a: true, b: false })),
+      false
+    );
+  });
+
+  it('is never pending for boolean or unmapped categories', () => {
+    assert.equal(
+      isCategoryPending('functional', { functional: true }, undefined),
+      false
+    );
+    assert.equal(isCategoryPending('marketing', {}, undefined), false);
+  });
+
+  it('considers the purposes of bound categories', () => {
+    assert.equal(
+      isCategoryPending<'ai'>(
+        'analytics',
+        { analytics: ['a'], ai: ['c'] },
+        purposes({ a: true }),
+        { ai: 'analytics' }
+      ),
+      true
+    );
+  });
+});
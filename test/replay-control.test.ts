@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import type { Client, Event } from '@sentry/types';
+import { withReplayControl } from '../src/replay-control.js';
+
+/**
+ * Stand-in for the Sentry Replay integration, recording how it is controlled
+ */
+function createFakeReplay() {
+  let recordingMode: 'session' | 'buffer' | undefined;
+
+  return {
+    name: 'Replay',
+    flushes: 0,
+    start() {
+      recordingMode = 'session';
+    },
+    startBuffering() {
+      recordingMode = 'buffer';
+    },
+    stop() {
+      recordingMode = undefined;
+      return Promise.resolve();
+    },
+    getReplayId() {
+      return recordingMode && 'replay-id';
+    },
+    getRecordingMode() {
+      return recordingMode;
+    },
+    flush() {
+      this.flushes++;
+      recordingMode = 'session';
+      return Promise.resolve();
+    },
+  };
+}
+
+describe('withReplayControl', () => {
+  let replay: ReturnType<typeof createFakeReplay>;
+  let granted: boolean;
+  let listeners: Set<() => void>;
+  let hooks: Map<string, ((...args: unknown[]) => void)[]>;
+
+  const setGranted = (value: boolean) => {
+    granted = value;
+
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const sendEvent = (event: Event, statusCode = 200) => {
+    for (const hook of hooks.get('afterSendEvent') ?? []) {
+      hook(event, { statusCode });
+    }
+  };
+
+  const setup = (replaysOnErrorSampleRate: number) => {
+    const client = {
+      getOptions: () => ({
+        replaysSessionSampleRate: 0,
+        replaysOnErrorSampleRate,
+      }),
+      getIntegrationByName: (name: string) =>
+        name === 'Replay' ? replay : undefined,
+      on: (hook: string, callback: (...args: unknown[]) => void) => {
+        hooks.set(hook, [...(hooks.get(hook) ?? []), callback]);
+        return () => {};
+      },
+    } as unknown as Client;
+
+    withReplayControl(
+      { name: 'Base' },
+      {
+        options: {},
+        getConsentState: () => ({ preferences: granted }),
+        subscribe: (listener) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+        debug: false,
+      }
+    ).setup?.(client);
+  };
+
+  const error: Event = { exception: { values: [{ type: 'Error' }] } };
+
+  beforeEach(() => {
+    replay = createFakeReplay();
+    granted = false;
+    listeners = new Set();
+    hooks = new Map();
+  });
+
+  it('buffers on grant and flushes on a sampled error', () => {
+    setup(1);
+    setGranted(true);
+    assert.equal(replay.getRecordingMode(), 'buffer');
+
+    sendEvent(error);
+    assert.equal(replay.flushes, 1);
+
+    sendEvent(error);
+    assert.equal(replay.flushes, 1);
+  });
+
+  it('does not buffer without an on-error sample rate', () => {
+    setup(0);
+    setGranted(true);
+    assert.equal(replay.getRecordingMode(), undefined);
+  });
+
+  it('ignores transactions and errors Sentry did not accept', () => {
+    setup(1);
+    setGranted(true);
+
+    sendEvent({ type: 'transaction' });
+    sendEvent(error, 429);
+    assert.equal(replay.flushes, 0);
+  });
+
+  it('stops the replay on revocation', () => {
+    setup(1);
+    setGranted(true);
+    setGranted(false);
+    assert.equal(replay.getRecordingMode(), undefined);
+
+    sendEvent(error);
+    assert.equal(replay.flushes, 0);
+  });
+});
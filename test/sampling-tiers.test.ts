@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveSamplingTier } from '../src/sampling-tiers.js';
+
+describe('resolveSamplingTier', () => {
+  const tiers = [
+    { categories: ['analytics', 'marketing'], tracesSampleRate: 1 },
+    { categories: ['analytics'], tracesSampleRate: 0.5 },
+    { categories: [], tracesSampleRate: 0.1 },
+  ];
+
+  it('picks the first tier whose categories are all granted', () => {
+    assert.equal(
+      resolveSamplingTier(tiers, { analytics: true, marketing: true }),
+      tiers[0]
+    );
+    assert.equal(
+      resolveSamplingTier(tiers, { analytics: true, marketing: false }),
+      tiers[1]
+    );
+  });
+
+  it('falls back to a tier without categories', () => {
+    assert.equal(resolveSamplingTier(tiers, { analytics: false }), tiers[2]);
+  });
+
+  it('returns undefined when no tier matches', () => {
+    assert.equal(
+      resolveSamplingTier(tiers.slice(0, 2), { marketing: true }),
+      undefined
+    );
+  });
+});
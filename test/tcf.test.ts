@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  createTcfConsentProvider,
+  type TcfApi,
+  type TcfData,
+} from '../src/tcf.js';
+
+type TcfListener = Parameters<TcfApi>[2];
+
+/**
+ * Local stand-in for a TCF v2.2 CMP, calling listeners synchronously
+ */
+function createFakeCmp(initial: Omit<TcfData, 'listenerId'>) {
+  const listeners = new Map<number, TcfListener>();
+  let tcData = initial;
+  let nextListenerId = 1;
+
+  const tcfapi: TcfApi = (command, _version, callback, parameter) => {
+    if (command === 'addEventListener') {
+      const listenerId = nextListenerId++;
+      listeners.set(listenerId, callback);
+      callback({ ...tcData, listenerId }, true);
+    } else if (command === 'removeEventListener') {
+      listeners.delete(parameter as number);
+    }
+  };
+
+  return {
+    tcfapi,
+    listeners,
+    update(data: Partial<TcfData>) {
+      tcData = { ...tcData, ...data };
+
+      for (const [listenerId, listener] of listeners) {
+        listener({ ...tcData, listenerId }, true);
+      }
+    },
+  };
+}
+
+const globals = globalThis as { window?: { __tcfapi?: TcfApi } };
+
+describe('createTcfConsentProvider', () => {
+  let cmp: ReturnType<typeof createFakeCmp>;
+
+  beforeEach(() => {
+    cmp = createFakeCmp({
+      gdprApplies: true,
+      eventStatus: 'tcloaded',
+      purpose: { consents: { 1: true, 7: false } },
+      vendor: { consents: { 755: true } },
+    });
+    globals.window = { __tcfapi: cmp.tcfapi };
+  });
+
+  afterEach(() => {
+    delete globals.window;
+  });
+
+  it('is not ready without a CMP', () => {
+    delete globals.window;
+
+    const provider = createTcfConsentProvider();
+
+    assert.equal(provider.isReady(), false);
+    assert.equal(provider.getPurposeConsent('1'), undefined);
+  });
+
+  it('resolves purpose consent from the TCData', () => {
+    const provider = createTcfConsentProvider();
+
+    assert.equal(provider.isReady(), true);
+    assert.equal(provider.getPurposeConsent('1'), true);
+    assert.equal(provider.getPurposeConsent('7'), false);
+    assert.equal(provider.getPurposeConsent('9'), false);
+  });
+
+  it('requires vendor consent when a vendor ID is set', () => {
+    assert.equal(
+      createTcfConsentProvider({ vendorId: 755 }).getPurposeConsent('1'),
+      true
+    );
+    assert.equal(
+      createTcfConsentProvider({ vendorId: 42 }).getPurposeConsent('1'),
+      false
+    );
+  });
+
+  it('grants every purpose where GDPR does not apply', () => {
+    cmp.update({ gdprApplies: false });
+
+    assert.equal(createTcfConsentProvider().getPurposeConsent('7'), true);
+  });
+
+  it('reports purposes as undecided while the CMP UI is shown', () => {
+    cmp.update({ eventStatus: 'cmpuishown' });
+
+    const provider = createTcfConsentProvider();
+
+    assert.equal(provider.isReady(), true);
+    assert.equal(provider.getPurposeConsent('1'), undefined);
+  });
+
+  it('notifies subscribers when the user completes their choices', () => {
+    cmp.update({ eventStatus: 'cmpuishown' });
+
+    const provider = createTcfConsentProvider();
+    let notifications = 0;
+    provider.subscribe(() => notifications++);
+
+    cmp.update({
+      eventStatus: 'useractioncomplete',
+      purpose: { consents: { 7: true } },
+    });
+
+    assert.equal(notifications, 1);
+    assert.equal(provider.getPurposeConsent('7'), true);
+  });
+
+  it('removes the CMP listener when the last subscriber unsubscribes', () => {
+    const provider = createTcfConsentProvider();
+    const unsubscribeFirst = provider.subscribe(() => {});
+    const unsubscribeSecond = provider.subscribe(() => {});
+
+    assert.equal(cmp.listeners.size, 1);
+
+    unsubscribeFirst();
+    assert.equal(cmp.listeners.size, 1);
+
+    unsubscribeSecond();
+    assert.equal(cmp.listeners.size, 0);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import type { Client, Envelope, EnvelopeItem } from '@sentry/types';
+import { withTelemetryConsent } from '../src/telemetry-consent.js';
+
+/**
+ * Creates an envelope with an item of each given type
+ */
+function createEnvelope(...types: string[]): Envelope {
+  const items = types.map((type) => [{ type }, {}]);
+  return [{}, items] as unknown as Envelope;
+}
+
+const getItemTypes = (envelope: Envelope) =>
+  (envelope[1] as EnvelopeItem[]).map(([headers]) => headers.type);
+
+describe('withTelemetryConsent', () => {
+  let consentState: Record<string, boolean>;
+  let dropped: string[];
+  let sendEnvelope: (envelope: Envelope) => void;
+
+  beforeEach(() => {
+    consentState = { functional: true, analytics: false, ai: false };
+    dropped = [];
+
+    const client = {
+      on: (hook: string, callback: (envelope: Envelope) => void) => {
+        if (hook === 'beforeEnvelope') {
+          sendEnvelope = callback;
+        }
+        return () => {};
+      },
+      recordDroppedEvent: (_reason: string, category: string) => {
+        dropped.push(category);
+      },
+    } as unknown as Client;
+
+    withTelemetryConsent(
+      { name: 'Base' },
+      {
+        mapping: {
+          error: 'functional',
+          transaction: ['analytics', 'ai'],
+          replay: 'analytics',
+        },
+        getConsentState: () => consentState,
+        debug: false,
+      }
+    ).setup?.(client);
+  });
+
+  it('keeps items whose categories are all granted', () => {
+    const envelope = createEnvelope('event', 'attachment', 'check_in');
+
+    sendEnvelope(envelope);
+    assert.deepEqual(getItemTypes(envelope), [
+      'event',
+      'attachment',
+      'check_in',
+    ]);
+    assert.deepEqual(dropped, []);
+  });
+
+  it('drops items missing any required category', () => {
+    consentState.analytics = true;
+    const envelope = createEnvelope('event', 'transaction', 'span');
+
+    sendEnvelope(envelope);
+    assert.deepEqual(getItemTypes(envelope), ['event']);
+    assert.deepEqual(dropped, ['span', 'transaction']);
+  });
+
+  it('drops attachments left without their item', () => {
+    consentState.functional = false;
+    const envelope = createEnvelope('event', 'attachment');
+
+    sendEnvelope(envelope);
+    assert.deepEqual(getItemTypes(envelope), []);
+    assert.deepEqual(dropped, ['error']);
+  });
+
+  it('drops every item type of a telemetry kind', () => {
+    const envelope = createEnvelope('replay_event', 'replay_recording');
+
+    sendEnvelope(envelope);
+    assert.deepEqual(getItemTypes(envelope), []);
+    assert.equal(dropped.length, 2);
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import {
+  getTimeoutFallbackState,
+  getTimeoutPolicyName,
+} from '../src/timeout-policy.js';
+
+const categories = [
+  'functional',
+  'analytics',
+  'marketing',
+  'preferences',
+  'ai',
+];
+
+const globals = globalThis as { document?: { cookie: string } };
+
+describe('getTimeoutFallbackState', () => {
+  afterEach(() => {
+    delete globals.document;
+  });
+
+  it('denies every category', () => {
+    assert.deepEqual(getTimeoutFallbackState('deny-all', categories), {
+      functional: false,
+      analytics: false,
+      marketing: false,
+      preferences: false,
+      ai: false,
+    });
+  });
+
+  it('only grants the functional category', () => {
+    const state = getTimeoutFallbackState('functional-only', categories);
+
+    assert.equal(state.functional, true);
+    assert.equal(state.analytics, false);
+    assert.equal(state.ai, false);
+  });
+
+  it('applies a static state and denies the other categories', () => {
+    const state = getTimeoutFallbackState(
+      {
+        type: 'static',
+        state: { functional: true, ai: true, marketing: false },
+      },
+      categories
+    );
+
+    assert.deepEqual(state, {
+      functional: true,
+      analytics: false,
+      marketing: false,
+      preferences: false,
+      ai: true,
+    });
+  });
+
+  it('reads the state from a JSON cookie', () => {
+    globals.document = {
+      cookie: `consent=${encodeURIComponent('{"analytics":true}')}`,
+    };
+
+    const state = getTimeoutFallbackState(
+      { type: 'cookie', name: 'consent' },
+      categories
+    );
+
+    assert.equal(state.analytics, true);
+    assert.equal(state.functional, false);
+  });
+
+  it('reads the state with a custom parser', () => {
+    globals.document = { cookie: 'consent=functional|preferences' };
+
+    const state = getTimeoutFallbackState(
+      {
+        type: 'cookie',
+        name: 'consent',
+        parse: (value) =>
+          Object.fromEntries(value.split('|').map((name) => [name, true])),
+      },
+      categories
+    );
+
+    assert.equal(state.functional, true);
+    assert.equal(state.preferences, true);
+    assert.equal(state.analytics, false);
+  });
+
+  it('denies every category when the cookie is missing or invalid', () => {
+    const policy = { type: 'cookie', name: 'consent' } as const;
+
+    assert.equal(
+      Object.values(getTimeoutFallbackState(policy, categories)).some(Boolean),
+      false
+    );
+
+    globals.document = { cookie: 'consent=not-json' };
+    assert.equal(
+      Object.values(getTimeoutFallbackState(policy, categories)).some(Boolean),
+      false
+    );
+  });
+});
+
+describe('getTimeoutPolicyName', () => {
+  it('names string and object policies', () => {
+    assert.equal(getTimeoutPolicyName('deny-all'), 'deny-all');
+    assert.equal(getTimeoutPolicyName({ type: 'static', state: {} }), 'static');
+  });
+});